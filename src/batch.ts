@@ -0,0 +1,157 @@
+import path from "node:path";
+import { runPipeline, type PipelineOptions } from "./pipeline.js";
+
+export interface BatchOptions
+  extends Omit<PipelineOptions, "inputPath" | "outputDir" | "imagesDir"> {
+  /** Each deck gets `<outputRoot>/<slug>/` with its own `images/` */
+  outputRoot: string;
+  concurrency: number;
+}
+
+export interface DeckReport {
+  inputPath: string;
+  slug: string;
+  outputDir: string;
+  pageCount: number;
+  totalImages: number;
+  cost: number;
+  estimatedCost?: number;
+  seconds: number;
+  outFile?: string;
+  error?: string;
+}
+
+/**
+ * Run the pipeline for every deck, `concurrency` at a time. A failing deck
+ * is recorded in its report instead of aborting the rest of the batch.
+ */
+export async function runBatch(
+  inputPaths: string[],
+  opts: BatchOptions
+): Promise<DeckReport[]> {
+  const { outputRoot, concurrency, ...pipelineOpts } = opts;
+  const slugs = uniqueSlugs(inputPaths);
+
+  console.log(
+    `[batch] ${inputPaths.length} decks, ${concurrency} at a time → ${outputRoot}\n`
+  );
+
+  return mapWithConcurrency(inputPaths, concurrency, async (inputPath, i) => {
+    const slug = slugs[i];
+    const outputDir = path.join(outputRoot, slug);
+    const t0 = performance.now();
+    console.log(`[batch] ▶ ${slug} (${i + 1}/${inputPaths.length})`);
+
+    const report: DeckReport = {
+      inputPath,
+      slug,
+      outputDir,
+      pageCount: 0,
+      totalImages: 0,
+      cost: 0,
+      seconds: 0,
+    };
+    try {
+      const result = await runPipeline({
+        ...pipelineOpts,
+        inputPath,
+        outputDir,
+        imagesDir: path.join(outputDir, "images"),
+      });
+      Object.assign(report, result);
+      console.log(`[batch] ✔ ${slug}`);
+    } catch (err) {
+      report.error = err instanceof Error ? err.message : String(err);
+      console.error(`[batch] ✘ ${slug}: ${report.error}`);
+    }
+    report.seconds = (performance.now() - t0) / 1000;
+    return report;
+  });
+}
+
+export function printBatchSummary(reports: DeckReport[]): void {
+  const nameWidth = Math.max(4, ...reports.map((r) => r.slug.length));
+  const header =
+    `  ${"Deck".padEnd(nameWidth)}  ${"Pages".padStart(5)}  ${"Images".padStart(6)}` +
+    `  ${"Cost".padStart(9)}  ${"Time".padStart(7)}  Status`;
+  const rule = "─".repeat(header.length + 2);
+
+  console.log(rule);
+  console.log(header);
+  console.log(rule);
+  for (const r of reports) {
+    console.log(
+      `  ${r.slug.padEnd(nameWidth)}  ${String(r.pageCount).padStart(5)}` +
+        `  ${String(r.totalImages).padStart(6)}  ${`$${r.cost.toFixed(4)}`.padStart(9)}` +
+        `  ${`${r.seconds.toFixed(1)}s`.padStart(7)}  ${r.error ? "FAILED" : "ok"}`
+    );
+  }
+  console.log(rule);
+
+  const totalCost = reports.reduce((sum, r) => sum + r.cost, 0);
+  const totalPages = reports.reduce((sum, r) => sum + r.pageCount, 0);
+  console.log(
+    `  ${"Total".padEnd(nameWidth)}  ${String(totalPages).padStart(5)}` +
+      `  ${String(reports.reduce((sum, r) => sum + r.totalImages, 0)).padStart(6)}` +
+      `  ${`$${totalCost.toFixed(4)}`.padStart(9)}`
+  );
+  const estimated = reports.filter((r) => r.estimatedCost !== undefined);
+  if (estimated.length > 0) {
+    const totalEstimate = estimated.reduce((sum, r) => sum + r.estimatedCost!, 0);
+    console.log(
+      `  ${"Estimated".padEnd(nameWidth)}  ${"".padStart(5)}  ${"".padStart(6)}` +
+        `  ${`$${totalEstimate.toFixed(4)}`.padStart(9)}`
+    );
+  }
+
+  const failures = reports.filter((r) => r.error);
+  if (failures.length > 0) {
+    console.log(`\n  ${failures.length} deck(s) failed:`);
+    for (const f of failures) {
+      console.log(`    - ${path.basename(f.inputPath)}: ${f.error}`);
+    }
+  }
+  console.log(rule);
+}
+
+/** File name → folder-safe slug, e.g. "Lecture 3 – Genetics.pdf" → "lecture-3-genetics" */
+export function deckSlug(inputPath: string): string {
+  const base = path.basename(inputPath, path.extname(inputPath));
+  const slug = base
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "deck";
+}
+
+function uniqueSlugs(inputPaths: string[]): string[] {
+  const seen = new Map<string, number>();
+  return inputPaths.map((p) => {
+    const slug = deckSlug(p);
+    const n = (seen.get(slug) ?? 0) + 1;
+    seen.set(slug, n);
+    return n === 1 ? slug : `${slug}-${n}`;
+  });
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const i = next++;
+        results[i] = await fn(items[i], i);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
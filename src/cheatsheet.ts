@@ -0,0 +1,282 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Marked } from "marked";
+import mupdf from "mupdf";
+import { CITATION_PATTERN } from "./citations.js";
+import {
+  buildTopicContent,
+  MATH_RULE,
+  type ImageDescription,
+  type TopicWithPages,
+} from "./llm-analyzer.js";
+import type { ChatMessage, LLMProvider } from "./llm-provider.js";
+import { describeError } from "./llm-scheduler.js";
+import { mathExtension } from "./math.js";
+import type { PageData } from "./pdf-processor.js";
+import { launchBrowser } from "./pdf-writer.js";
+import type { PageSize } from "./themes.js";
+
+export interface CheatSheetItem {
+  kind: "term" | "fact" | "formula";
+  /** Markdown: **bold** terms, $LaTeX$ formulas */
+  text: string;
+  /** 1 = essential … 3 = first to go when the sheet is too long */
+  priority: 1 | 2 | 3;
+}
+
+export interface CheatSheet {
+  sections: {
+    topic: string;
+    pages: number[];
+    items: CheatSheetItem[];
+    /** The topic's most useful figure, shown as a thumbnail */
+    image?: string;
+  }[];
+}
+
+/**
+ * Optional Step 3f: boil each topic down to the key terms, formulas and
+ * facts worth having on an exam cheat sheet, ranked so the renderer knows
+ * what to drop first. A topic whose call fails is left out with a warning.
+ */
+export async function generateCheatSheet(
+  provider: LLMProvider,
+  topics: TopicWithPages[],
+  pages: PageData[],
+  imageDescriptions: ImageDescription[]
+): Promise<{ sheet: CheatSheet; cost: number }> {
+  const descMap = new Map(imageDescriptions.map((d) => [d.imageId, d]));
+  const results = await Promise.all(
+    topics.map(async (topic) => {
+      try {
+        const { text, finishReason, cost } = await provider.chat({
+          task: "cheatsheet",
+          messages: buildCheatSheetMessages(topic, buildTopicContent(topic, pages, descMap)),
+          maxTokens: 1500,
+          temperature: 0,
+        });
+        if (finishReason === "length") {
+          console.warn(`[cheatsheet] Warning: entries for "${topic.name}" were cut off at the token limit`);
+        }
+        const topicImages = new Set(
+          pages
+            .filter((p) => topic.pageNumbers.includes(p.pageNumber))
+            .flatMap((p) => p.images.map((img) => img.filename))
+        );
+        return { ...parseEntries(text, topic, topicImages), cost };
+      } catch (err) {
+        console.warn(`[cheatsheet] Warning: no entries for "${topic.name}" (${describeError(err)})`);
+        return { items: [], cost: 0 };
+      }
+    })
+  );
+
+  const sections = topics
+    .map((t, i) => ({
+      topic: t.name,
+      pages: t.pageNumbers,
+      items: results[i].items,
+      image: results[i].image,
+    }))
+    .filter((s) => s.items.length > 0);
+  return { sheet: { sections }, cost: results.reduce((sum, r) => sum + r.cost, 0) };
+}
+
+function buildCheatSheetMessages(topic: TopicWithPages, textContent: string): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: `You help university students prepare a one-page exam cheat sheet. You compress lecture material into the fewest words that still let a student answer exam questions, strictly from the material given. Output valid JSON only.`,
+    },
+    {
+      role: "user",
+      content: `Write the cheat-sheet entries for this lecture topic.
+
+Topic: **${topic.name}**
+Pages covered: ${topic.pageNumbers.join(", ")}
+
+RULES:
+- 4–10 entries. Telegraphic style: no full sentences, no filler, abbreviations welcome (e.g. "→", "↑", "w/").
+- "term": "**Term**: definition in ≤ 12 words".
+- "formula": a labelled formula, e.g. "Nernst: $E = \\frac{RT}{zF}\\ln\\frac{[X]_o}{[X]_i}$", with symbols explained only if not obvious.
+- "fact": a key relationship, mechanism step, number or exception in ≤ 15 words.
+- "priority": 1 = essential for the exam, 2 = useful, 3 = nice to have. Use each level.
+- "image": the {{FILENAME}} of the one figure most worth a thumbnail on the sheet (e.g. a pathway or structure), or null if none helps.
+- ${MATH_RULE}
+
+Respond with ONLY a JSON object:
+{"items": [{"kind": "term", "text": "**Plasmid**: small circular DNA, replicates independently", "priority": 1}], "image": "page3-img1.png"}
+
+--- CONTENT FOR THIS TOPIC ---
+${textContent}`,
+    },
+  ];
+}
+
+function parseEntries(
+  text: string,
+  topic: TopicWithPages,
+  topicImages: Set<string>
+): { items: CheatSheetItem[]; image?: string } {
+  const json = text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+  let raw: { items?: unknown; image?: unknown };
+  try {
+    raw = JSON.parse(json) as typeof raw;
+  } catch (err) {
+    console.warn(`[cheatsheet] Warning: could not parse entries for "${topic.name}": ${(err as Error).message}`);
+    return { items: [] };
+  }
+
+  const items: CheatSheetItem[] = [];
+  for (const entry of Array.isArray(raw.items) ? raw.items : []) {
+    const { kind, text: itemText, priority } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof itemText !== "string" || !itemText.trim()) continue;
+    items.push({
+      kind: kind === "term" || kind === "formula" ? kind : "fact",
+      text: itemText.trim(),
+      priority: priority === 1 || priority === 2 ? priority : 3,
+    });
+  }
+  const image = typeof raw.image === "string" ? raw.image.replace(/^\{\{|\}\}$/g, "") : undefined;
+  return { items, image: image && topicImages.has(image) ? image : undefined };
+}
+
+// ── Rendering ──
+
+export interface CheatSheetOptions {
+  /** Sides of paper the sheet must fit on */
+  pages: number;
+  title: string;
+  imagesDir: string;
+  pageSize: PageSize;
+}
+
+/** Layouts tried in order, each denser than the last, until the sheet fits */
+const FIT_STEPS = [
+  { fontPt: 8, columns: 3, thumbnails: true, maxPriority: 3 },
+  { fontPt: 7, columns: 3, thumbnails: true, maxPriority: 3 },
+  { fontPt: 6.5, columns: 4, thumbnails: true, maxPriority: 3 },
+  { fontPt: 6.5, columns: 4, thumbnails: false, maxPriority: 3 },
+  { fontPt: 6, columns: 4, thumbnails: false, maxPriority: 2 },
+  { fontPt: 5.5, columns: 4, thumbnails: false, maxPriority: 1 },
+] as const;
+
+type FitStep = (typeof FIT_STEPS)[number];
+
+const MARGIN = "7mm";
+
+/**
+ * Render the sheet to PDF, shrinking the type and then trimming thumbnails
+ * and low-priority entries until it fits the requested number of pages.
+ * Returns the file written: the PDF, or HTML if there is no browser.
+ */
+export async function renderCheatSheet(
+  sheet: CheatSheet,
+  outputPath: string,
+  opts: CheatSheetOptions
+): Promise<string> {
+  let browser;
+  try {
+    browser = await launchBrowser();
+  } catch {
+    const htmlPath = outputPath.replace(/\.pdf$/, ".html");
+    console.warn(
+      "[cheatsheet] No browser to fit the sheet to the page (is Chrome installed for Puppeteer?); " +
+        `writing unfitted HTML to ${htmlPath}`
+    );
+    fs.writeFileSync(htmlPath, cheatSheetHtml(sheet, FIT_STEPS[0], opts));
+    return htmlPath;
+  }
+
+  try {
+    const page = await browser.newPage();
+    let pdf = Buffer.alloc(0);
+    let pageCount = 0;
+    let step: FitStep = FIT_STEPS[0];
+    for (step of FIT_STEPS) {
+      await page.setContent(cheatSheetHtml(sheet, step, opts), { waitUntil: "load" });
+      pdf = Buffer.from(
+        await page.pdf({
+          format: opts.pageSize,
+          margin: { top: MARGIN, right: MARGIN, bottom: MARGIN, left: MARGIN },
+          printBackground: true,
+        })
+      );
+      pageCount = mupdf.Document.openDocument(pdf, "application/pdf").countPages();
+      if (pageCount <= opts.pages) break;
+      console.log(`[cheatsheet] ${step.fontPt}pt, ${step.columns} columns: ${pageCount} pages, condensing...`);
+    }
+
+    fs.writeFileSync(outputPath, pdf);
+    if (pageCount > opts.pages) {
+      console.warn(
+        `[cheatsheet] Warning: still ${pageCount} pages at the densest layout; ` +
+          `the sheet is longer than the ${opts.pages} requested`
+      );
+    }
+    console.log(
+      `[out] Cheat sheet saved to ${outputPath} (${pageCount} ${pageCount === 1 ? "page" : "pages"}, ` +
+        `${step.fontPt}pt, ${step.columns} columns)`
+    );
+    return outputPath;
+  } finally {
+    await browser.close();
+  }
+}
+
+const inline = new Marked(mathExtension);
+
+function cheatSheetHtml(sheet: CheatSheet, step: FitStep, opts: CheatSheetOptions): string {
+  const sections = sheet.sections.map((section) => {
+    const items = section.items
+      .filter((item) => item.priority <= step.maxPriority)
+      .map((item) => {
+        const html = inline.parseInline(item.text.replace(CITATION_PATTERN, "").trim()) as string;
+        return `<li class="${item.kind}">${html}</li>`;
+      });
+    const imageFile = section.image && path.join(opts.imagesDir, section.image);
+    const thumb =
+      step.thumbnails && imageFile && fs.existsSync(imageFile)
+        ? `<img src="data:image/${path.extname(imageFile).slice(1)};base64,${fs.readFileSync(imageFile).toString("base64")}" alt="">`
+        : "";
+    return `<section><h2>${escapeHtml(section.topic)}</h2>${thumb}<ul>${items.join("")}</ul></section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(opts.title)} — Cheat Sheet</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    font-family: 'Arial Narrow', 'Segoe UI', system-ui, sans-serif;
+    font-size: ${step.fontPt}pt;
+    line-height: 1.2;
+    color: #111;
+    column-count: ${step.columns};
+    column-gap: 2.5mm;
+    column-rule: 0.5px solid #ccc;
+  }
+  h1 { column-span: all; font-size: 1.5em; margin: 0 0 1mm; border-bottom: 1px solid #1e40af; color: #1e3a5f; }
+  section { break-inside: avoid-column; margin-bottom: 1.2mm; }
+  h2 { font-size: 1.1em; margin: 0 0 0.4mm; padding: 0.2mm 1mm; background: #dbeafe; color: #1e3a8a; }
+  ul { margin: 0; padding-left: 2.6mm; }
+  li { margin: 0; }
+  li.formula { list-style: none; margin-left: -2.6mm; }
+  img { float: right; max-width: 38%; max-height: 16mm; margin: 0 0 0.5mm 1mm; }
+  math { font-size: 1em; }
+  .math-error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(opts.title)}</h1>
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
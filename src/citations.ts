@@ -0,0 +1,50 @@
+/**
+ * Slide citations in the notes: `[p12]`, `[p12–14]`, `[p3, p5]`. The
+ * prompts ask for them on every paragraph; the writer turns them into
+ * links (HTML) or footnotes (PDF).
+ */
+
+const PAGE_REF = String.raw`p?\d+(?:\s*[-–]\s*p?\d+)?`;
+/** One or more adjacent citation groups, e.g. `[p3] [p5–6]` */
+export const CITATION_PATTERN = new RegExp(
+  String.raw`(?:\[p\d+(?:\s*[-–]\s*p?\d+)?(?:\s*,\s*${PAGE_REF})*\]\s*)+`,
+  "g"
+);
+
+/** Page numbers of a citation match, sorted and deduplicated */
+export function parseCitation(text: string): number[] {
+  const pages = new Set<number>();
+  for (const [, a, b] of text.matchAll(/p?(\d+)(?:\s*[-–]\s*p?(\d+))?/g)) {
+    const from = Number(a);
+    const to = b ? Number(b) : from;
+    // Guard against typos like [p12-1200]
+    for (let n = from; n <= Math.min(to, from + 200); n++) pages.add(n);
+  }
+  return [...pages].sort((x, y) => x - y);
+}
+
+/** [3, 4, 5, 9] → "3–5, 9" */
+export function formatPageList(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    parts.push(j > i ? `${sorted[i]}–${sorted[j]}` : `${sorted[i]}`);
+    i = j;
+  }
+  return parts.join(", ");
+}
+
+/** The marker the model is asked to write, e.g. `[p3–5, p9]` */
+export function citationMarker(pages: number[]): string {
+  return `[${formatPageList(pages)
+    .split(", ")
+    .map((r) => `p${r}`)
+    .join(", ")}]`;
+}
+
+/** "slide 4" / "slides 4–6, 9" */
+export function citationLabel(pages: number[]): string {
+  return `${pages.length === 1 ? "slide" : "slides"} ${formatPageList(pages)}`;
+}
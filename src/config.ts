@@ -1,18 +1,320 @@
+import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { PRICING, PROVIDER_NAMES, type ProviderName } from "./llm-provider.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.resolve(__dirname, "..");
 
-export const CONFIG = {
+export type VisionDetail = "low" | "high" | "auto";
+
+export interface Config {
+  inputDir: string;
+  outputDir: string;
+  imagesDir: string;
+  cacheDir: string;
+
+  provider: ProviderName;
+  model: string;
+  // Prompt profile: a name from profiles/ or a path to a profile file
+  profile: string;
+  // Closing sections of the notes, by id (unset: the profile's defaults)
+  closingSections?: string[];
+  visionDetail: VisionDetail;
+  visionBatchSize: number;
+  // Repair rounds when the topics JSON fails validation
+  topicsMaxRepairs: number;
+  // Repair rounds when the concept map does not parse as Mermaid
+  mermaidMaxRepairs: number;
+  // Self-test questions written per topic with --quiz
+  quizQuestionsPerTopic: number;
+  // Sides of paper the --cheat-sheet is fitted to
+  cheatSheetPages: number;
+  // Long decks: topics are extracted over windows of this much slide text
+  topicsWindowTokens: number;
+  topicsWindowOverlap: number;
+  // Topic summaries above this are merged in groups (3c answers are capped at 10k tokens)
+  mergeMaxSectionTokens: number;
+  // Follow-up requests when a prose answer stops at max_tokens
+  maxContinuations: number;
+
+  batchConcurrency: number;
+
+  // Request scheduling, shared by every LLM call in the run
+  llmConcurrency: number;
+  llmTokensPerMinute: number;
+  llmMaxRetries: number;
+  llmTimeoutMs: number;
+  llmBackoffMs: number;
+  llmMaxBackoffMs: number;
+
+  imageMaxWidth: number;
+  imageJpegQuality: number;
+  // Slide previews shown next to citations (PDF input only)
+  slideThumbnailWidth: number;
+
+  // Image filtering: perceptual dedup, template decoration, blank strips
+  imageHashMaxDistance: number;
+  imageMaxPageShare: number;
+  imageMinStdDev: number;
+  imageMaxAspectRatio: number;
+
+  // Vector drawings with at least this many shapes are extracted as figures
+  vectorMinPaths: number;
+  vectorRenderScale: number;
+
+  // Pages with fewer extracted characters than this get a vision transcription
+  ocrMinTextChars: number;
+  ocrRenderWidth: number;
+  ocrDetail: VisionDetail;
+}
+
+export type ConfigKey = keyof Config;
+
+const DEFAULTS: Config = {
   inputDir: path.join(ROOT, "input"),
   outputDir: path.join(ROOT, "output"),
   imagesDir: path.join(ROOT, "output", "images"),
+  cacheDir: path.join(ROOT, ".cache", "llm"),
 
-  model: "gpt-4o-mini" as const,
-  visionDetail: "low" as const,
+  provider: "openai",
+  model: "gpt-4o-mini",
+  profile: "general",
+  visionDetail: "low",
   visionBatchSize: 5,
+  topicsMaxRepairs: 2,
+  mermaidMaxRepairs: 2,
+  quizQuestionsPerTopic: 5,
+  cheatSheetPages: 1,
+  topicsWindowTokens: 12_000,
+  topicsWindowOverlap: 2,
+  mergeMaxSectionTokens: 7_000,
+  maxContinuations: 2,
+
+  batchConcurrency: 2,
+
+  llmConcurrency: 4,
+  llmTokensPerMinute: 200_000,
+  llmMaxRetries: 5,
+  llmTimeoutMs: 120_000,
+  llmBackoffMs: 1_000,
+  llmMaxBackoffMs: 60_000,
 
   imageMaxWidth: 512,
   imageJpegQuality: 82,
-} as const;
+  slideThumbnailWidth: 320,
+
+  imageHashMaxDistance: 6,
+  imageMaxPageShare: 0.3,
+  imageMinStdDev: 6,
+  imageMaxAspectRatio: 6,
+
+  vectorMinPaths: 6,
+  vectorRenderScale: 2,
+
+  ocrMinTextChars: 20,
+  ocrRenderWidth: 1024,
+  ocrDetail: "high",
+};
+
+/** The effective settings. loadConfig() fills them in at startup; until then, the defaults. */
+export const CONFIG: Config = { ...DEFAULTS };
+
+// ── Loading ──
+
+/** Looked for in the working directory */
+export const CONFIG_FILE = "ppt-summarizer.config.json";
+
+/** Environment variables are the setting in UPPER_SNAKE_CASE with this prefix */
+export const ENV_PREFIX = "PPT_SUMMARIZER_";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type Setting =
+  | { type: "path" }
+  | { type: "string" }
+  | { type: "choice"; choices: readonly string[] }
+  | { type: "list" }
+  | { type: "integer"; min: number; max?: number }
+  | { type: "number"; min: number; max?: number };
+
+const DETAILS = ["low", "high", "auto"] as const;
+
+const SETTINGS: Record<ConfigKey, Setting> = {
+  inputDir: { type: "path" },
+  outputDir: { type: "path" },
+  imagesDir: { type: "path" },
+  cacheDir: { type: "path" },
+  provider: { type: "choice", choices: PROVIDER_NAMES },
+  model: { type: "string" },
+  profile: { type: "string" },
+  closingSections: { type: "list" },
+  visionDetail: { type: "choice", choices: DETAILS },
+  visionBatchSize: { type: "integer", min: 1 },
+  topicsMaxRepairs: { type: "integer", min: 0 },
+  mermaidMaxRepairs: { type: "integer", min: 0 },
+  quizQuestionsPerTopic: { type: "integer", min: 1 },
+  cheatSheetPages: { type: "integer", min: 1 },
+  topicsWindowTokens: { type: "integer", min: 1_000 },
+  topicsWindowOverlap: { type: "integer", min: 0 },
+  mergeMaxSectionTokens: { type: "integer", min: 1_000 },
+  maxContinuations: { type: "integer", min: 0 },
+  batchConcurrency: { type: "integer", min: 1 },
+  llmConcurrency: { type: "integer", min: 1 },
+  llmTokensPerMinute: { type: "integer", min: 0 },
+  llmMaxRetries: { type: "integer", min: 0 },
+  llmTimeoutMs: { type: "integer", min: 1 },
+  llmBackoffMs: { type: "integer", min: 0 },
+  llmMaxBackoffMs: { type: "integer", min: 0 },
+  imageMaxWidth: { type: "integer", min: 16 },
+  imageJpegQuality: { type: "integer", min: 1, max: 100 },
+  slideThumbnailWidth: { type: "integer", min: 16 },
+  imageHashMaxDistance: { type: "integer", min: 0, max: 64 },
+  imageMaxPageShare: { type: "number", min: 0, max: 1 },
+  imageMinStdDev: { type: "number", min: 0 },
+  imageMaxAspectRatio: { type: "number", min: 1 },
+  vectorMinPaths: { type: "integer", min: 1 },
+  vectorRenderScale: { type: "number", min: 0.5, max: 8 },
+  ocrMinTextChars: { type: "integer", min: 0 },
+  ocrRenderWidth: { type: "integer", min: 16 },
+  ocrDetail: { type: "choice", choices: DETAILS },
+};
+
+export const CONFIG_KEYS = Object.keys(SETTINGS) as ConfigKey[];
+
+/** Where each effective setting came from: "default", a file path, an env var or "command line" */
+export type ConfigSources = Record<ConfigKey, string>;
+
+export interface LoadConfigOptions {
+  /** Config file to read (default: ./ppt-summarizer.config.json if it exists) */
+  file?: string;
+  /** Settings from command-line flags, as typed or as strings */
+  cli: Partial<Record<ConfigKey, unknown>>;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Merge the defaults, the config file, PPT_SUMMARIZER_* environment
+ * variables and command-line flags (later layers win), validate the
+ * result and make it the effective CONFIG.
+ */
+export function loadConfig(opts: LoadConfigOptions): ConfigSources {
+  const merged: Config = { ...DEFAULTS };
+  const sources = Object.fromEntries(CONFIG_KEYS.map((k) => [k, "default"])) as ConfigSources;
+  const set = (key: ConfigKey, raw: unknown, source: string, baseDir: string) => {
+    (merged as unknown as Record<string, unknown>)[key] = parseSetting(key, raw, source, baseDir);
+    sources[key] = source;
+  };
+
+  // ── Config file: paths are relative to the file ──
+  const file = opts.file ? path.resolve(opts.file) : path.resolve(CONFIG_FILE);
+  if (opts.file && !fs.existsSync(file)) throw new ConfigError(`Config file not found: ${file}`);
+  if (fs.existsSync(file)) {
+    let json: unknown;
+    try {
+      json = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (err) {
+      throw new ConfigError(`${file} is not valid JSON: ${(err as Error).message}`);
+    }
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      throw new ConfigError(`${file} must contain a JSON object of settings`);
+    }
+    for (const [key, value] of Object.entries(json)) {
+      set(knownKey(key, file), value, path.relative(process.cwd(), file) || file, path.dirname(file));
+    }
+  }
+
+  // ── Environment ──
+  const env = opts.env ?? process.env;
+  for (const key of CONFIG_KEYS) {
+    const name = envName(key);
+    if (env[name] !== undefined && env[name] !== "") set(key, env[name], name, process.cwd());
+  }
+
+  // ── Command line ──
+  for (const [key, value] of Object.entries(opts.cli)) {
+    if (value !== undefined) set(knownKey(key, "the command line"), value, "command line", process.cwd());
+  }
+
+  // Images live in the output directory unless placed elsewhere
+  if (sources.imagesDir === "default" && sources.outputDir !== "default") {
+    merged.imagesDir = path.join(merged.outputDir, "images");
+    sources.imagesDir = "follows outputDir";
+  }
+
+  const prices = PRICING[merged.provider];
+  if (Object.keys(prices).length > 0 && !prices[merged.model]) {
+    throw new ConfigError(
+      `Unknown ${merged.provider} model "${merged.model}" (from ${sources.model}). ` +
+        `Models with pricing: ${Object.keys(prices).join(", ")}.`
+    );
+  }
+
+  Object.assign(CONFIG, merged);
+  return sources;
+}
+
+/** The effective settings, one per line with where each came from */
+export function formatConfig(sources: ConfigSources): string {
+  // Unset optional settings show as "-"
+  const values = CONFIG_KEYS.map((key) => JSON.stringify(CONFIG[key]) ?? "-");
+  const keyWidth = Math.max(...CONFIG_KEYS.map((k) => k.length));
+  const valueWidth = Math.max(...values.map((v) => v.length));
+  return CONFIG_KEYS.map(
+    (key, i) => `${key.padEnd(keyWidth)}  ${values[i].padEnd(valueWidth)}  ${sources[key]}`
+  ).join("\n");
+}
+
+/** visionBatchSize → PPT_SUMMARIZER_VISION_BATCH_SIZE */
+export function envName(key: ConfigKey): string {
+  return ENV_PREFIX + key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+function knownKey(key: string, source: string): ConfigKey {
+  if (key in SETTINGS) return key as ConfigKey;
+  throw new ConfigError(`Unknown setting "${key}" in ${source}. Settings: ${CONFIG_KEYS.join(", ")}.`);
+}
+
+/** Check a value against its setting. Strings (env, flags) are converted; JSON values must have the right type. */
+function parseSetting(key: ConfigKey, raw: unknown, source: string, baseDir: string): unknown {
+  const setting = SETTINGS[key];
+  const invalid = (expected: string) =>
+    new ConfigError(`Invalid ${key} ${JSON.stringify(raw)} (from ${source}). Use ${expected}.`);
+
+  switch (setting.type) {
+    case "path":
+    case "string": {
+      if (typeof raw !== "string" || !raw.trim()) throw invalid("a non-empty string");
+      return setting.type === "path" ? path.resolve(baseDir, raw) : raw.trim();
+    }
+    case "list": {
+      // "a,b" from env and flags, ["a", "b"] in the file; "none" for an empty list
+      const items = typeof raw === "string" ? raw.split(",").map((s) => s.trim()).filter(Boolean) : raw;
+      if (!Array.isArray(items) || !items.every((s) => typeof s === "string" && s)) {
+        throw invalid(`a list of names, e.g. "a,b"`);
+      }
+      return items.length === 1 && items[0] === "none" ? [] : items;
+    }
+    case "choice": {
+      const value = typeof raw === "string" ? raw.toLowerCase() : raw;
+      if (!setting.choices.includes(value as string)) throw invalid(`one of: ${setting.choices.join(", ")}`);
+      return value;
+    }
+    case "integer":
+    case "number": {
+      const value = typeof raw === "string" && raw.trim() ? Number(raw.replace(/_/g, "")) : raw;
+      const range =
+        setting.max !== undefined ? `${setting.min}–${setting.max}` : `≥ ${setting.min}`;
+      const expected = setting.type === "integer" ? `an integer ${range}` : `a number ${range}`;
+      if (typeof value !== "number" || !Number.isFinite(value)) throw invalid(expected);
+      if (setting.type === "integer" && !Number.isInteger(value)) throw invalid(expected);
+      if (value < setting.min || (setting.max !== undefined && value > setting.max)) throw invalid(expected);
+      return value;
+    }
+  }
+}
@@ -0,0 +1,488 @@
+import { CONFIG } from "./config.js";
+import type { PageData, ExtractedImage } from "./pdf-processor.js";
+import { ANSWER_TOKENS, groupByTokens, pageWindows } from "./llm-analyzer.js";
+import {
+  approxTokens,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+  type LLMTask,
+} from "./llm-provider.js";
+
+/** gpt-4o-mini bills each image at ~33× the gpt-4o token rate */
+const VISION_TOKENS_PER_LOW_IMAGE = 2833;
+const VISION_TOKENS_PER_TILE = 5667;
+/** gpt-4o and most other OpenAI vision models */
+const BASE_IMAGE_TOKENS = 85;
+const TILE_IMAGE_TOKENS = 170;
+
+// Instruction overhead of each prompt and typical answer lengths, measured
+// on real runs; good to within ~20% for lecture decks
+const PROMPT_OVERHEAD: Record<LLMTask, number> = {
+  ocr: 250,
+  vision: 400,
+  topics: 450,
+  "flowchart-repair": 150,
+  summary: 450,
+  merge: 700,
+  verify: 300,
+  quiz: 500,
+  cheatsheet: 450,
+};
+const OCR_OUTPUT_PER_PAGE = 400;
+const VISION_OUTPUT_PER_IMAGE = 300;
+const SUMMARY_OUTPUT_PER_TOPIC = 900;
+const QUIZ_OUTPUT_PER_QUESTION = 130;
+const CHEATSHEET_OUTPUT_PER_TOPIC = 350;
+const PAGES_PER_TOPIC = 5;
+/** Title, intro and closing sections of the notes */
+const FRAME_OUTPUT = 1500;
+/** Headings and key terms of a topic in the merge frame's outline */
+const OUTLINE_PER_TOPIC = 40;
+/** Verification: ~30 output tokens of notes per checked sentence */
+const TOKENS_PER_CLAIM = 30;
+const CLAIMS_PER_VERIFY_CALL = 30;
+const VERIFY_OUTPUT_PER_CLAIM = 40;
+
+const STEP_LABELS: Record<LLMTask, string> = {
+  ocr: "1b OCR",
+  vision: "2  Vision",
+  topics: "3a Topics",
+  "flowchart-repair": "3a Map repair",
+  summary: "3b Summaries",
+  merge: "3c Merge",
+  verify: "3d Verify",
+  quiz: "3e Quiz",
+  cheatsheet: "3f Cheat sheet",
+};
+
+export interface EstimateLine {
+  task: LLMTask;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostEstimate {
+  provider: string;
+  model: string;
+  lines: EstimateLine[];
+  cost: number;
+}
+
+export interface EstimateOptions {
+  /** Steps that will call the model */
+  tasks: LLMTask[];
+  /** Known from the topics checkpoint; otherwise guessed from the page count */
+  topicCount?: number;
+  /** Images that will not be sent to vision */
+  skipVision?: Set<string>;
+}
+
+/** What `planWithinBudget` decided to leave out */
+export interface BudgetPlan {
+  estimate: CostEstimate;
+  skipVision: Set<string>;
+  skipOcr: boolean;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export interface Budget {
+  maxCost: number;
+  /** Cost of the calls made against the budget so far */
+  spent(): number;
+  /** What is neither spent nor set aside for runs in flight */
+  available(): number;
+  /**
+   * Set a run's planned cost aside, so runs planned alongside it plan around
+   * it. `spentSoFar` is the part of the plan already spent. Call the returned
+   * function when the run ends.
+   */
+  setAside(planned: number, spentSoFar: () => number): () => void;
+}
+
+export interface BudgetedProvider extends LLMProvider, Budget {}
+
+/**
+ * Estimate tokens and dollars for every call the given steps will make,
+ * before any of them is made. Cache hits are not predicted, so a re-run
+ * usually costs less than this.
+ */
+export function estimateCost(
+  provider: Pick<LLMProvider, "name" | "model" | "pricing">,
+  pages: PageData[],
+  opts: EstimateOptions
+): CostEstimate {
+  const { pricing, model } = provider;
+  const contentPages = pages.filter(
+    (p) => p.text.length > 0 || p.images.length > 0 || !!p.notes
+  );
+  const images = pages.flatMap((p) => p.images);
+  const tokensOf = (p: PageData) =>
+    approxTokens(p.text) + approxTokens(p.notes ?? "") + 10 * p.images.length;
+  const pageTokens = contentPages.reduce((sum, p) => sum + tokensOf(p), 0);
+  const topicCount =
+    opts.topicCount ?? Math.max(1, Math.ceil(contentPages.length / PAGES_PER_TOPIC));
+
+  const lines: EstimateLine[] = [];
+  const add = (task: LLMTask, calls: number, inputTokens: number, outputTokens: number) => {
+    if (!opts.tasks.includes(task) || calls === 0) return;
+    lines.push({
+      task,
+      calls,
+      inputTokens,
+      outputTokens,
+      cost: inputTokens * pricing.input + outputTokens * pricing.output,
+    });
+  };
+  const addCalls = (task: LLMTask, ...calls: PlannedCall[]) =>
+    add(
+      task,
+      calls.reduce((sum, c) => sum + c.calls, 0),
+      calls.reduce((sum, c) => sum + c.inputTokens, 0),
+      calls.reduce((sum, c) => sum + c.outputTokens, 0)
+    );
+
+  const renders = pages.filter((p) => p.pageRender);
+  add(
+    "ocr",
+    renders.length,
+    renders.reduce(
+      (sum, p) =>
+        sum +
+        PROMPT_OVERHEAD.ocr +
+        approxTokens(p.text) +
+        imageTokens(model, CONFIG.ocrDetail, p.pageRender!),
+      0
+    ),
+    renders.length * OCR_OUTPUT_PER_PAGE
+  );
+
+  const visionImages = pages.flatMap((p) =>
+    p.images
+      .filter((img) => !opts.skipVision?.has(img.id))
+      .map((img) => ({ img, pageText: p.text }))
+  );
+  const batches = Math.ceil(visionImages.length / CONFIG.visionBatchSize);
+  add(
+    "vision",
+    batches,
+    batches * PROMPT_OVERHEAD.vision +
+      visionImages.reduce(
+        (sum, { img, pageText }) =>
+          sum + 40 + approxTokens(pageText) + imageTokens(model, CONFIG.visionDetail, img),
+        0
+      ),
+    visionImages.length * VISION_OUTPUT_PER_IMAGE
+  );
+
+  // One call per window of pages, plus one reconciling the windows' topics
+  const topicsAnswer = (topics: number, pageCount: number) => 150 + topics * 60 + pageCount * 2;
+  const windows = pageWindows(contentPages, CONFIG.topicsWindowTokens, CONFIG.topicsWindowOverlap);
+  if (windows.length <= 1) {
+    addCalls(
+      "topics",
+      withContinuations(
+        PROMPT_OVERHEAD.topics + pageTokens,
+        topicsAnswer(topicCount, contentPages.length),
+        ANSWER_TOKENS.topics
+      )
+    );
+  } else {
+    const windowAnswers = windows.map((w) =>
+      topicsAnswer(Math.ceil(w.length / PAGES_PER_TOPIC), w.length)
+    );
+    addCalls(
+      "topics",
+      ...windows.map((w, i) =>
+        withContinuations(
+          PROMPT_OVERHEAD.topics + w.reduce((sum, p) => sum + tokensOf(p), 0),
+          windowAnswers[i],
+          ANSWER_TOKENS.topics
+        )
+      ),
+      withContinuations(
+        PROMPT_OVERHEAD.topics + windowAnswers.reduce((sum, t) => sum + t, 0),
+        topicsAnswer(topicCount, contentPages.length),
+        ANSWER_TOKENS.topics
+      )
+    );
+  }
+
+  const summaryOutput = topicCount * SUMMARY_OUTPUT_PER_TOPIC;
+  add(
+    "summary",
+    topicCount,
+    topicCount * PROMPT_OVERHEAD.summary + pageTokens + images.length * VISION_OUTPUT_PER_IMAGE,
+    summaryOutput
+  );
+
+  // One pass, or (past `mergeMaxSectionTokens`) one call per group of
+  // sections plus one for the title, intro and closing sections
+  const sectionTokens = SUMMARY_OUTPUT_PER_TOPIC + 20;
+  const flowchartTokens = 15 * topicCount;
+  if (topicCount * sectionTokens <= CONFIG.mergeMaxSectionTokens) {
+    addCalls(
+      "merge",
+      withContinuations(
+        PROMPT_OVERHEAD.merge + topicCount * sectionTokens + flowchartTokens,
+        summaryOutput + FRAME_OUTPUT,
+        ANSWER_TOKENS.merge
+      )
+    );
+  } else {
+    const groups = groupByTokens(
+      Array.from({ length: topicCount }, () => sectionTokens),
+      CONFIG.mergeMaxSectionTokens,
+      (tokens) => tokens
+    );
+    addCalls(
+      "merge",
+      ...groups.map((group) => {
+        const tokens = group.reduce((sum, t) => sum + t, 0);
+        return withContinuations(PROMPT_OVERHEAD.merge + tokens, tokens, ANSWER_TOKENS.merge);
+      }),
+      withContinuations(
+        PROMPT_OVERHEAD.merge + topicCount * OUTLINE_PER_TOPIC + flowchartTokens,
+        FRAME_OUTPUT,
+        ANSWER_TOKENS.mergeFrame
+      )
+    );
+  }
+
+  // One call per section (more for long ones), each with the section's
+  // sentences and up to 15 source pages
+  const claims = Math.ceil((summaryOutput + FRAME_OUTPUT) / TOKENS_PER_CLAIM);
+  const verifyCalls = Math.max(topicCount, Math.ceil(claims / CLAIMS_PER_VERIFY_CALL));
+  const avgPageTokens = pageTokens / Math.max(1, contentPages.length);
+  add(
+    "verify",
+    verifyCalls,
+    Math.round(
+      verifyCalls * (PROMPT_OVERHEAD.verify + Math.min(15, contentPages.length) * avgPageTokens)
+    ) + summaryOutput,
+    claims * VERIFY_OUTPUT_PER_CLAIM
+  );
+
+  add(
+    "quiz",
+    topicCount,
+    topicCount * PROMPT_OVERHEAD.quiz + pageTokens + images.length * VISION_OUTPUT_PER_IMAGE,
+    topicCount * CONFIG.quizQuestionsPerTopic * QUIZ_OUTPUT_PER_QUESTION
+  );
+
+  add(
+    "cheatsheet",
+    topicCount,
+    topicCount * PROMPT_OVERHEAD.cheatsheet + pageTokens + images.length * VISION_OUTPUT_PER_IMAGE,
+    topicCount * CHEATSHEET_OUTPUT_PER_TOPIC
+  );
+
+  return {
+    provider: provider.name,
+    model,
+    lines,
+    cost: lines.reduce((sum, l) => sum + l.cost, 0),
+  };
+}
+
+export function printEstimate(estimate: CostEstimate): void {
+  console.log(`[estimate] Planned LLM calls (${estimate.provider}/${estimate.model}):`);
+  const header =
+    `  ${"Step".padEnd(13)}  ${"Calls".padStart(5)}  ${"In tokens".padStart(10)}` +
+    `  ${"Out tokens".padStart(10)}  ${"Cost".padStart(9)}`;
+  const rule = "─".repeat(header.length + 2);
+  console.log(rule);
+  console.log(header);
+  console.log(rule);
+  for (const l of estimate.lines) {
+    console.log(
+      `  ${STEP_LABELS[l.task].padEnd(13)}  ${String(l.calls).padStart(5)}` +
+        `  ${l.inputTokens.toLocaleString("en-US").padStart(10)}` +
+        `  ${l.outputTokens.toLocaleString("en-US").padStart(10)}` +
+        `  ${`$${l.cost.toFixed(4)}`.padStart(9)}`
+    );
+  }
+  console.log(rule);
+  console.log(`  ${"Total".padEnd(13)}  ${`$${estimate.cost.toFixed(4)}`.padStart(41)}`);
+  console.log(rule);
+}
+
+/**
+ * Fit the planned calls under `maxCost`: first stop sending the
+ * lowest-value images to vision (small rasters before diagrams), then skip
+ * OCR. Throws if the text-only synthesis alone would still cost too much.
+ */
+export function planWithinBudget(
+  provider: Pick<LLMProvider, "name" | "model" | "pricing">,
+  pages: PageData[],
+  opts: EstimateOptions,
+  maxCost: number
+): BudgetPlan {
+  const skipVision = new Set<string>();
+  let tasks = opts.tasks;
+  let estimate = estimateCost(provider, pages, { ...opts, tasks, skipVision });
+  if (estimate.cost <= maxCost) return { estimate, skipVision, skipOcr: false };
+
+  const byValue = pages
+    .flatMap((p) => p.images)
+    .sort((a, b) => imageValue(a) - imageValue(b));
+  for (const img of byValue) {
+    skipVision.add(img.id);
+    estimate = estimateCost(provider, pages, { ...opts, tasks, skipVision });
+    if (estimate.cost <= maxCost) return { estimate, skipVision, skipOcr: false };
+  }
+
+  tasks = tasks.filter((t) => t !== "ocr");
+  estimate = estimateCost(provider, pages, { ...opts, tasks, skipVision });
+  if (estimate.cost <= maxCost) {
+    // Without OCR there may be room for the most valuable images again
+    for (const img of byValue.reverse()) {
+      skipVision.delete(img.id);
+      const next = estimateCost(provider, pages, { ...opts, tasks, skipVision });
+      if (next.cost > maxCost) {
+        skipVision.add(img.id);
+        break;
+      }
+      estimate = next;
+    }
+    return { estimate, skipVision, skipOcr: true };
+  }
+
+  printEstimate(estimate);
+  throw new BudgetExceededError(
+    `Even without vision and OCR this run is estimated at $${estimate.cost.toFixed(4)}, ` +
+      `over the --max-cost budget of $${maxCost.toFixed(4)}. ` +
+      `Raise the budget or use a cheaper model.`
+  );
+}
+
+/**
+ * Refuse any call that could take total spend past `maxCost`, assuming the
+ * worst case (the full `maxTokens` answer). Callers that degrade on error
+ * (vision, OCR) then simply skip the remaining work.
+ */
+export function withBudget(provider: LLMProvider, maxCost: number): BudgetedProvider {
+  let spent = 0;
+  // Worst-case cost of calls still in flight, so parallel calls can't overshoot together
+  let reserved = 0;
+  // Planned cost of runs in flight (batch decks), for planning only
+  const plans = new Set<{ planned: number; spentSoFar: () => number }>();
+
+  async function chat(request: ChatRequest): Promise<ChatResponse> {
+    const worstCase =
+      requestInputTokens(provider.model, request) * provider.pricing.input +
+      request.maxTokens * provider.pricing.output;
+    if (spent + reserved + worstCase > maxCost) {
+      throw new BudgetExceededError(
+        `The ${request.task} request could cost up to $${worstCase.toFixed(4)}; ` +
+          `$${(spent + reserved).toFixed(4)} of the $${maxCost.toFixed(4)} budget is spent or committed`
+      );
+    }
+    reserved += worstCase;
+    try {
+      const response = await provider.chat(request);
+      spent += response.cost;
+      return response;
+    } finally {
+      reserved -= worstCase;
+    }
+  }
+
+  function available(): number {
+    let setAside = 0;
+    for (const plan of plans) setAside += Math.max(0, plan.planned - plan.spentSoFar());
+    return maxCost - spent - setAside;
+  }
+
+  function setAside(planned: number, spentSoFar: () => number): () => void {
+    const plan = { planned, spentSoFar };
+    plans.add(plan);
+    return () => {
+      plans.delete(plan);
+    };
+  }
+
+  return { ...provider, chat, maxCost, spent: () => spent, available, setAside };
+}
+
+/** The pages minus the given images, e.g. those the budget keeps out of vision */
+export function withoutImages(pages: PageData[], ids: Set<string>): PageData[] {
+  if (ids.size === 0) return pages;
+  return pages.map((p) => ({ ...p, images: p.images.filter((img) => !ids.has(img.id)) }));
+}
+
+/** Vector diagrams first, then larger pictures: both carry more lecture content */
+function imageValue(img: ExtractedImage): number {
+  return (img.kind === "vector" ? 1e9 : 0) + img.width * img.height;
+}
+
+interface PlannedCall {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * One request whose answer may run past `maxTokens`: each continuation
+ * round (see chatToCompletion) sends the prompt again with the answer so far.
+ */
+function withContinuations(inputTokens: number, outputTokens: number, maxTokens: number): PlannedCall {
+  const rounds = Math.max(
+    0,
+    Math.min(CONFIG.maxContinuations, Math.ceil(outputTokens / maxTokens) - 1)
+  );
+  let input = inputTokens;
+  for (let round = 1; round <= rounds; round++) input += inputTokens + round * maxTokens;
+  return {
+    calls: rounds + 1,
+    inputTokens: input,
+    outputTokens: Math.min(outputTokens, (rounds + 1) * maxTokens),
+  };
+}
+
+function requestInputTokens(model: string, request: ChatRequest): number {
+  let tokens = 0;
+  for (const msg of request.messages) {
+    if (typeof msg.content === "string") {
+      tokens += approxTokens(msg.content);
+      continue;
+    }
+    for (const part of msg.content) {
+      tokens += part.type === "text" ? approxTokens(part.text) : imageTokens(model, part.detail);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * OpenAI image accounting: a flat cost at low detail, per 512px tile at high.
+ * Without a size (a request's images), price a full 2×2 tile grid.
+ */
+export function imageTokens(
+  model: string,
+  detail: "low" | "high" | "auto",
+  size = { width: 1024, height: 1024 }
+): number {
+  const mini = model.includes("mini");
+  const base = mini ? VISION_TOKENS_PER_LOW_IMAGE : BASE_IMAGE_TOKENS;
+  if (detail === "low") return base;
+
+  // Fit in 2048×2048, then scale the short side down to 768
+  let { width, height } = size;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shrink = Math.min(1, 768 / Math.min(width, height));
+  width *= shrink;
+  height *= shrink;
+  const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+  return base + tiles * (mini ? VISION_TOKENS_PER_TILE : TILE_IMAGE_TOKENS);
+}
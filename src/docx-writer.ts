@@ -0,0 +1,653 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Marked, type Token, type Tokens } from "marked";
+import sharp from "sharp";
+import { CITATION_PATTERN, citationLabel, parseCitation } from "./citations.js";
+import { mathExtension, texToMathMl } from "./math.js";
+import { prerenderDiagrams, type RenderOptions } from "./pdf-writer.js";
+import { notesProfile } from "./prompt-profiles.js";
+import { childElements, escapeXml, findFirst, parseXml, textContent, type XmlNode } from "./xml.js";
+import { createZip, type ZipEntry } from "./zip.js";
+
+/**
+ * Word output, so the notes can be edited: the markdown is converted to
+ * WordprocessingML with real headings, lists, tables, captioned figures,
+ * editable equations and citations as footnotes.
+ */
+
+const lexer = new Marked(mathExtension);
+
+/** Largest image size on the page (A4 with the margins below), in EMUs */
+const MAX_IMAGE_WIDTH = 6.2 * 914400;
+const MAX_IMAGE_HEIGHT = 8 * 914400;
+const EMU_PER_PIXEL = 9525;
+
+interface DocxImage {
+  name: string;
+  data: Buffer;
+  width: number;
+  height: number;
+  relId?: string;
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  style?: string;
+  /** Background colour, for the faithfulness highlights */
+  shade?: string;
+}
+
+/** What the document accumulates while it is converted */
+interface DocxState {
+  images: Map<string, DocxImage>;
+  relationships: string[];
+  footnotes: string[];
+  /** Start number of each ordered list; each gets its own numbering instance */
+  orderedLists: number[];
+  shade?: string;
+  imageCount: number;
+}
+
+export async function writeDocx(
+  markdown: string,
+  outputPath: string,
+  opts: RenderOptions
+): Promise<void> {
+  const title = opts.title ?? markdown.match(/^# (.+)$/m)?.[1].trim() ?? "Study Notes";
+  const md = await prerenderDiagrams(markdown, opts.imagesDir);
+  const state: DocxState = {
+    images: await loadImages(md, opts.imagesDir),
+    relationships: [],
+    footnotes: [],
+    orderedLists: [],
+    imageCount: 0,
+  };
+
+  const body = lexer.lexer(md).map((token) => blockXml(token, state)).join("");
+  const media: ZipEntry[] = [...state.images.values()]
+    .filter((img) => img.relId)
+    .map((img) => ({ name: `word/media/${img.name}`, data: img.data, store: true }));
+
+  const entries: ZipEntry[] = [
+    { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: Buffer.from(PACKAGE_RELS) },
+    { name: "docProps/core.xml", data: Buffer.from(coreProperties(title, notesProfile(markdown))) },
+    { name: "word/document.xml", data: Buffer.from(documentXml(body)) },
+    { name: "word/_rels/document.xml.rels", data: Buffer.from(documentRels(state.relationships)) },
+    { name: "word/styles.xml", data: Buffer.from(STYLES) },
+    { name: "word/numbering.xml", data: Buffer.from(numberingXml(state.orderedLists)) },
+    { name: "word/footnotes.xml", data: Buffer.from(footnotesXml(state.footnotes)) },
+    { name: "word/settings.xml", data: Buffer.from(SETTINGS) },
+    ...media,
+  ];
+  fs.writeFileSync(outputPath, createZip(entries));
+  console.log(`[out] DOCX saved to ${outputPath} (${media.length} images, ${state.footnotes.length} citations)`);
+}
+
+/** Read every image the notes show, converting formats Word can't display to PNG */
+async function loadImages(markdown: string, imagesDir: string): Promise<Map<string, DocxImage>> {
+  const images = new Map<string, DocxImage>();
+  for (const [, , src] of markdown.matchAll(/!\[([^\]]*)\]\(([^)]+)\)/g)) {
+    const file = path.join(imagesDir, src);
+    if (images.has(src) || !fs.existsSync(file)) continue;
+    try {
+      let data: Buffer = fs.readFileSync(file);
+      let name = path.basename(src);
+      const meta = await sharp(data).metadata();
+      if (!["jpeg", "png", "gif"].includes(meta.format ?? "")) {
+        data = await sharp(data).png().toBuffer();
+        name = name.replace(/\.\w+$/, "") + ".png";
+      }
+      images.set(src, {
+        name: `image${images.size + 1}${path.extname(name).toLowerCase()}`,
+        data,
+        width: meta.width ?? 600,
+        height: meta.height ?? 400,
+      });
+    } catch (err) {
+      console.warn(`[out] Warning: could not read image ${src}: ${(err as Error).message}`);
+    }
+  }
+  return images;
+}
+
+// ── Blocks ──
+
+function blockXml(token: Token, state: DocxState, paragraphStyle?: string): string {
+  switch (token.type) {
+    case "space":
+      return "";
+    case "heading": {
+      const style = token.depth === 1 ? "Title" : `Heading${Math.min(token.depth - 1, 3)}`;
+      return paragraph(inlineXml(token.tokens ?? [], state), { style });
+    }
+    case "paragraph":
+      return paragraphXml(token as Tokens.Paragraph, state, paragraphStyle);
+    case "list":
+      return listXml(token as Tokens.List, state, 0);
+    case "code":
+      return token.text
+        .split("\n")
+        .map((line: string) => paragraph(run(line, {}), { style: "Code" }))
+        .join("");
+    case "blockquote":
+      return (token.tokens ?? []).map((t) => blockXml(t, state, "Quote")).join("");
+    case "table":
+      return tableXml(token as Tokens.Table, state);
+    case "hr":
+      return paragraph("", {
+        extra: `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>`,
+      });
+    case "blockMath": {
+      const math = mathXml(token.text, state);
+      return paragraph(math, { style: paragraphStyle, center: true, display: math.startsWith("<m:oMath>") });
+    }
+    case "html": {
+      const text = token.text.replace(/<[^>]*>/g, "").trim();
+      return text ? paragraph(run(text, {}), { style: paragraphStyle }) : "";
+    }
+    default:
+      return "tokens" in token && token.tokens
+        ? paragraph(inlineXml(token.tokens, state), { style: paragraphStyle })
+        : "";
+  }
+}
+
+function paragraphXml(token: Tokens.Paragraph, state: DocxState, style?: string): string {
+  // A `_Slides:_` line under a heading cites the whole section
+  const slides = token.raw.match(/^_Slides:_\s*(\[.+\])\s*$/);
+  if (slides) {
+    const label = citationLabel(parseCitation(slides[1])).replace(/^s/, "S");
+    return paragraph(run(label, {}), { style: "SectionSlides" });
+  }
+
+  // An image on its own is a figure: centred, with its alt text as the caption
+  const content = token.tokens.filter((t) => !(t.type === "text" && !t.text.trim()));
+  if (content.length === 1 && content[0].type === "image") {
+    const image = content[0] as Tokens.Image;
+    const caption = image.text ? paragraph(run(image.text, {}), { style: "Caption" }) : "";
+    return paragraph(imageXml(image, state), { center: true, keepNext: !!caption }) + caption;
+  }
+  return paragraph(inlineXml(token.tokens, state), { style });
+}
+
+function listXml(list: Tokens.List, state: DocxState, level: number, numId?: number): string {
+  if (numId === undefined) {
+    if (list.ordered) {
+      state.orderedLists.push(typeof list.start === "number" ? list.start : 1);
+      numId = state.orderedLists.length + 1;
+    } else {
+      numId = 1;
+    }
+  }
+  const out: string[] = [];
+  for (const item of list.items) {
+    let numbered = false;
+    for (const child of item.tokens) {
+      if (child.type === "list") {
+        const nested = child as Tokens.List;
+        // Nested lists of the same kind continue the parent's numbering at the next level
+        out.push(listXml(nested, state, Math.min(level + 1, 2), nested.ordered === list.ordered ? numId : undefined));
+        continue;
+      }
+      const checkbox = item.task && !numbered ? run(item.checked ? "☑ " : "☐ ", {}) : "";
+      const runs = "tokens" in child && child.tokens ? inlineXml(child.tokens, state) : "";
+      if (!runs && !checkbox) continue;
+      out.push(
+        paragraph(checkbox + runs, {
+          style: "ListParagraph",
+          extra: numbered
+            ? `<w:ind w:left="${720 * (level + 1)}"/>`
+            : `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`,
+        })
+      );
+      numbered = true;
+    }
+  }
+  return out.join("");
+}
+
+function tableXml(table: Tokens.Table, state: DocxState): string {
+  const width = Math.floor(9866 / table.header.length);
+  const cell = (c: Tokens.TableCell, header: boolean) => {
+    const jc = c.align === "center" || c.align === "right" ? c.align : undefined;
+    const shade = header ? `<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>` : "";
+    const runs = inlineXml(c.tokens, state, header ? { bold: true } : {});
+    return (
+      `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shade}</w:tcPr>` +
+      paragraph(runs, { align: jc, style: "TableText" }) +
+      `</w:tc>`
+    );
+  };
+  return (
+    `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+    `<w:tblGrid>${table.header.map(() => `<w:gridCol w:w="${width}"/>`).join("")}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${table.header.map((c) => cell(c, true)).join("")}</w:tr>` +
+    table.rows.map((row) => `<w:tr>${row.map((c) => cell(c, false)).join("")}</w:tr>`).join("") +
+    `</w:tbl>` +
+    // Word needs a paragraph between a table and whatever follows
+    paragraph("", {})
+  );
+}
+
+function paragraph(
+  content: string,
+  opts: {
+    style?: string;
+    center?: boolean;
+    align?: string;
+    keepNext?: boolean;
+    display?: boolean;
+    extra?: string;
+  }
+): string {
+  const props = [
+    opts.style ? `<w:pStyle w:val="${opts.style}"/>` : "",
+    opts.keepNext ? "<w:keepNext/>" : "",
+    opts.extra ?? "",
+    opts.center || opts.align ? `<w:jc w:val="${opts.align ?? "center"}"/>` : "",
+  ].join("");
+  const body = opts.display ? `<m:oMathPara>${content}</m:oMathPara>` : content;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${body}</w:p>`;
+}
+
+// ── Inline content ──
+
+function inlineXml(tokens: Token[], state: DocxState, format: RunFormat = {}): string {
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case "text":
+          return token.tokens
+            ? inlineXml(token.tokens, state, format)
+            : textWithCitations(token.text, state, format);
+        case "escape":
+          return run(token.text, { ...format, shade: state.shade });
+        case "strong":
+          return inlineXml(token.tokens ?? [], state, { ...format, bold: true });
+        case "em":
+          return inlineXml(token.tokens ?? [], state, { ...format, italic: true });
+        case "del":
+          return inlineXml(token.tokens ?? [], state, { ...format, strike: true });
+        case "codespan":
+          return run(token.text, { ...format, code: true });
+        case "br":
+          return "<w:r><w:br/></w:r>";
+        case "link":
+          return linkXml(token as Tokens.Link, state, format);
+        case "image":
+          return imageXml(token as Tokens.Image, state);
+        case "inlineMath":
+          return mathXml(token.text, state);
+        case "html":
+          return inlineHtml(token.text, state);
+        default:
+          return "text" in token ? run(token.text, format) : "";
+      }
+    })
+    .join("");
+}
+
+/** Plain text, with each `[pN]` citation turned into a footnote */
+function textWithCitations(text: string, state: DocxState, format: RunFormat): string {
+  const out: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const pages = parseCitation(match[0]);
+    if (pages.length === 0) continue;
+    // Footnote marks sit right after the word they annotate
+    out.push(run(text.slice(last, match.index).trimEnd(), { ...format, shade: state.shade }));
+    out.push(footnoteReference(citationLabel(pages), state));
+    if (/\s$/.test(match[0])) out.push(run(" ", format));
+    last = match.index! + match[0].length;
+  }
+  out.push(run(text.slice(last), { ...format, shade: state.shade }));
+  return out.join("");
+}
+
+function footnoteReference(label: string, state: DocxState): string {
+  const id = state.footnotes.length + 1;
+  state.footnotes.push(
+    `<w:footnote w:id="${id}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr>` +
+      `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>` +
+      run(` ${label.replace(/^s/, "S")}`, {}) +
+      `</w:p></w:footnote>`
+  );
+  return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+}
+
+function linkXml(link: Tokens.Link, state: DocxState, format: RunFormat): string {
+  const runs = inlineXml(link.tokens, state, { ...format, style: "Hyperlink" });
+  if (!/^(https?|mailto):/i.test(link.href)) return runs;
+  const id = addRelationship(
+    state,
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink",
+    link.href,
+    true
+  );
+  return `<w:hyperlink r:id="${id}">${runs}</w:hyperlink>`;
+}
+
+/** The faithfulness check marks unsupported claims with <mark>; keep them highlighted */
+function inlineHtml(html: string, state: DocxState): string {
+  const mark = html.match(/^<mark\b[^>]*class="(\w+)"/);
+  if (mark) state.shade = mark[1] === "contradicted" ? "FEE2E2" : "FEF3C7";
+  else if (/^<\/mark>/.test(html)) state.shade = undefined;
+  else if (/^<br\s*\/?>$/i.test(html)) return "<w:r><w:br/></w:r>";
+  return "";
+}
+
+function run(text: string, format: RunFormat): string {
+  if (!text) return "";
+  const props = [
+    format.style ? `<w:rStyle w:val="${format.style}"/>` : "",
+    format.code ? `<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>` : "",
+    format.bold ? "<w:b/>" : "",
+    format.italic ? "<w:i/>" : "",
+    format.strike ? "<w:strike/>" : "",
+    format.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${format.shade}"/>` : "",
+  ].join("");
+  // Line breaks inside a markdown paragraph are just spaces
+  const t = escapeXml(text.replace(/\n/g, " "));
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${t}</w:t></w:r>`;
+}
+
+function imageXml(image: Tokens.Image, state: DocxState): string {
+  const img = state.images.get(image.href);
+  if (!img) return run(image.text, { italic: true });
+  img.relId ??= addRelationship(
+    state,
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image",
+    `media/${img.name}`
+  );
+
+  let cx = img.width * EMU_PER_PIXEL;
+  let cy = img.height * EMU_PER_PIXEL;
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / cx, MAX_IMAGE_HEIGHT / cy);
+  cx = Math.round(cx * scale);
+  cy = Math.round(cy * scale);
+  const id = ++state.imageCount;
+  const alt = escapeXml(image.text);
+  return (
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}" descr="${alt}"/>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${img.name}" descr="${alt}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${img.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>` +
+    `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+  );
+}
+
+function addRelationship(state: DocxState, type: string, target: string, external = false): string {
+  // rId1–rId4 are the fixed parts (styles, numbering, footnotes, settings)
+  const id = `rId${state.relationships.length + 5}`;
+  state.relationships.push(
+    `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"` +
+      `${external ? ` TargetMode="External"` : ""}/>`
+  );
+  return id;
+}
+
+// ── Math: KaTeX's MathML, translated to Word's equation markup (OMML) ──
+
+function mathXml(tex: string, state: DocxState): string {
+  const mathml = texToMathMl(tex, false);
+  const math = mathml ? findFirst(parseXml(mathml), "math") : undefined;
+  if (!math) return run(`$${tex}$`, { code: true, shade: state.shade });
+  return `<m:oMath>${omml(math)}</m:oMath>`;
+}
+
+function omml(node: XmlNode): string {
+  if (typeof node === "string") return "";
+  const args = childElements(node);
+  const arg = (i: number) => (args[i] ? omml(args[i]) : "");
+  switch (node.name) {
+    case "annotation":
+    case "annotation-xml":
+    case "mphantom":
+      return "";
+    case "mi":
+    case "mn":
+    case "mo":
+    case "mtext":
+    case "ms": {
+      const text = textContent(node);
+      if (!text) return "";
+      // Single letters are italic variables; names ("sin"), numbers and text are upright
+      const upright =
+        node.name === "mtext" ||
+        node.attrs.mathvariant === "normal" ||
+        (node.name === "mi" && [...text].length > 1);
+      const props = upright ? `<m:rPr><m:sty m:val="p"/></m:rPr>` : "";
+      return `<m:r>${props}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+    }
+    case "msup":
+      return `<m:sSup><m:e>${arg(0)}</m:e><m:sup>${arg(1)}</m:sup></m:sSup>`;
+    case "msub":
+      return `<m:sSub><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub></m:sSub>`;
+    case "msubsup":
+      return `<m:sSubSup><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub><m:sup>${arg(2)}</m:sup></m:sSubSup>`;
+    case "mfrac": {
+      const noBar = /^0(\.0*)?[a-z]*$/.test(node.attrs.linethickness ?? "");
+      const props = noBar ? `<m:fPr><m:type m:val="noBar"/></m:fPr>` : "";
+      return `<m:f>${props}<m:num>${arg(0)}</m:num><m:den>${arg(1)}</m:den></m:f>`;
+    }
+    case "msqrt":
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${args.map(omml).join("")}</m:e></m:rad>`;
+    case "mroot":
+      return `<m:rad><m:deg>${arg(1)}</m:deg><m:e>${arg(0)}</m:e></m:rad>`;
+    case "munder":
+      return `<m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow>`;
+    case "mover":
+      if (node.attrs.accent === "true" && args[1]) {
+        const chr = escapeXml(textContent(args[1]));
+        return `<m:acc><m:accPr><m:chr m:val="${chr}"/></m:accPr><m:e>${arg(0)}</m:e></m:acc>`;
+      }
+      return `<m:limUpp><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limUpp>`;
+    case "munderover":
+      return (
+        `<m:limUpp><m:e><m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow></m:e>` +
+        `<m:lim>${arg(2)}</m:lim></m:limUpp>`
+      );
+    case "mtable":
+      return (
+        `<m:m>` +
+        args
+          .map((row) => `<m:mr>${childElements(row).map((cell) => `<m:e>${omml(cell)}</m:e>`).join("")}</m:mr>`)
+          .join("") +
+        `</m:m>`
+      );
+    default:
+      // math, semantics, mrow, mstyle, mpadded, menclose, mtd: just their contents
+      return args.map(omml).join("");
+  }
+}
+
+// ── Package parts ──
+
+const NAMESPACES =
+  `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ` +
+  `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ` +
+  `xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ` +
+  `xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ` +
+  `xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture" ` +
+  `xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"`;
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`;
+
+function documentXml(body: string): string {
+  // A4, 20 mm top/bottom and 18 mm side margins, like the PDF
+  return (
+    XML_HEADER +
+    `<w:document ${NAMESPACES}><w:body>${body}` +
+    `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>` +
+    `<w:pgMar w:top="1134" w:right="1020" w:bottom="1134" w:left="1020" w:header="567" w:footer="567" w:gutter="0"/>` +
+    `</w:sectPr></w:body></w:document>`
+  );
+}
+
+function documentRels(relationships: string[]): string {
+  const base = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  return (
+    XML_HEADER +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${base}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId2" Type="${base}/numbering" Target="numbering.xml"/>` +
+    `<Relationship Id="rId3" Type="${base}/footnotes" Target="footnotes.xml"/>` +
+    `<Relationship Id="rId4" Type="${base}/settings" Target="settings.xml"/>` +
+    relationships.join("") +
+    `</Relationships>`
+  );
+}
+
+function footnotesXml(footnotes: string[]): string {
+  return (
+    XML_HEADER +
+    `<w:footnotes ${NAMESPACES}>` +
+    `<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>` +
+    `<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>` +
+    footnotes.join("") +
+    `</w:footnotes>`
+  );
+}
+
+/** Bullets share numbering 1; every ordered list gets its own instance so it restarts */
+function numberingXml(orderedLists: number[]): string {
+  const level = (ilvl: number, format: string, text: string) =>
+    `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+    `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+    `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  const bullets = ["•", "◦", "▪"].map((chr, i) => level(i, "bullet", chr)).join("");
+  const numbers = ["decimal", "lowerLetter", "lowerRoman"]
+    .map((format, i) => level(i, format, `%${i + 1}.`))
+    .join("");
+  return (
+    XML_HEADER +
+    `<w:numbering ${NAMESPACES}>` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${bullets}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${numbers}</w:abstractNum>` +
+    `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+    orderedLists
+      .map(
+        (start, i) =>
+          `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/>` +
+          `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+      .join("") +
+    `</w:numbering>`
+  );
+}
+
+function coreProperties(title: string, profile: string | undefined): string {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  return (
+    XML_HEADER +
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+    `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    (profile ? `<dc:description>Prompt profile: ${escapeXml(profile)}</dc:description>` : "") +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `</cp:coreProperties>`
+  );
+}
+
+const CONTENT_TYPES =
+  XML_HEADER +
+  `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+  `<Default Extension="xml" ContentType="application/xml"/>` +
+  `<Default Extension="png" ContentType="image/png"/>` +
+  `<Default Extension="jpg" ContentType="image/jpeg"/>` +
+  `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+  `<Default Extension="gif" ContentType="image/gif"/>` +
+  `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+  `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+  `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+  `<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>` +
+  `<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>` +
+  `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+  `</Types>`;
+
+const PACKAGE_RELS =
+  XML_HEADER +
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+  `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+  `</Relationships>`;
+
+const SETTINGS =
+  XML_HEADER +
+  `<w:settings ${NAMESPACES}>` +
+  `<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>` +
+  `<w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>` +
+  `</w:settings>`;
+
+/** Paragraph styles, so a TA can restyle the whole document from Word's style gallery */
+function paragraphStyle(id: string, name: string, props: string, runProps = "", extra = ""): string {
+  return (
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/>` +
+    `<w:basedOn w:val="Normal"/>${extra}<w:qFormat/>` +
+    `<w:pPr>${props}</w:pPr><w:rPr>${runProps}</w:rPr></w:style>`
+  );
+}
+
+const heading = (level: number, size: number, color: string) =>
+  paragraphStyle(
+    `Heading${level}`,
+    `heading ${level}`,
+    `<w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/>`,
+    `<w:b/><w:color w:val="${color}"/><w:sz w:val="${size}"/>`,
+    `<w:next w:val="Normal"/>`
+  );
+
+const STYLES =
+  XML_HEADER +
+  `<w:styles ${NAMESPACES}>` +
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>` +
+  `<w:sz w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>` +
+  `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+  `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+  paragraphStyle(
+    "Title",
+    "Title",
+    `<w:spacing w:after="240"/><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="2563EB"/></w:pBdr>`,
+    `<w:b/><w:color w:val="1E3A5F"/><w:sz w:val="40"/>`,
+    `<w:next w:val="Normal"/>`
+  ) +
+  heading(1, 30, "1E40AF") +
+  heading(2, 25, "374151") +
+  heading(3, 22, "374151") +
+  paragraphStyle("ListParagraph", "List Paragraph", `<w:spacing w:after="60"/><w:contextualSpacing/>`) +
+  paragraphStyle("Caption", "caption", `<w:jc w:val="center"/><w:spacing w:after="240"/>`, `<w:i/><w:color w:val="6B7280"/><w:sz w:val="18"/>`) +
+  paragraphStyle(
+    "Quote",
+    "Quote",
+    `<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="2563EB"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="EFF6FF"/><w:ind w:left="284"/>`,
+    `<w:color w:val="1E40AF"/>`
+  ) +
+  paragraphStyle(
+    "Code",
+    "Code",
+    `<w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F9FAFB"/>`,
+    `<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/>`
+  ) +
+  paragraphStyle("SectionSlides", "Section Slides", `<w:spacing w:after="120"/>`, `<w:color w:val="6B7280"/><w:sz w:val="18"/>`) +
+  paragraphStyle("TableText", "Table Text", `<w:spacing w:after="0"/>`, `<w:sz w:val="20"/>`) +
+  paragraphStyle("FootnoteText", "footnote text", `<w:spacing w:after="0" w:line="240" w:lineRule="auto"/>`, `<w:sz w:val="18"/>`) +
+  `<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/>` +
+  `<w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>` +
+  `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>` +
+  `<w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>` +
+  `<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr>` +
+  `<w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"]
+    .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`)
+    .join("")}</w:tblBorders>` +
+  `<w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar>` +
+  `</w:tblPr></w:style>` +
+  `</w:styles>`;
@@ -0,0 +1,225 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { CITATION_PATTERN } from "./citations.js";
+import { markdownToHtml, prerenderDiagrams, type RenderOptions } from "./pdf-writer.js";
+import { notesProfile } from "./prompt-profiles.js";
+import { escapeXml } from "./xml.js";
+import { createZip, type ZipEntry } from "./zip.js";
+
+/**
+ * EPUB 3 output for e-readers and phones: reflowable XHTML, one chapter per
+ * ## section (so one per topic), with the images and pre-rendered diagrams
+ * packaged inside and citations as footnotes at the end of each chapter.
+ */
+
+const MEDIA_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+interface Chapter {
+  file: string;
+  title: string;
+  body: string;
+}
+
+export async function writeEpub(
+  markdown: string,
+  outputPath: string,
+  opts: RenderOptions
+): Promise<void> {
+  const title = opts.title ?? markdown.match(/^# (.+)$/m)?.[1].trim() ?? "Study Notes";
+  const md = await prerenderDiagrams(markdown, opts.imagesDir);
+
+  // ── Chapters: the title page (everything before the first ##), then one per ## section ──
+  const images = new Map<string, string>();
+  const chapters: Chapter[] = [];
+  for (const part of md.split(/^(?=## )/m)) {
+    if (!part.trim()) continue;
+    const heading = part.match(/^## (.+)$/m)?.[1] ?? title;
+    const html = await markdownToHtml(part, {
+      imagesDir: opts.imagesDir,
+      citationStyle: "footnote",
+      imageSrc: (file) => {
+        const name = path.basename(file);
+        if (!MEDIA_TYPES[path.extname(name).toLowerCase()]) return "";
+        images.set(name, file);
+        return `images/${encodeURIComponent(name)}`;
+      },
+    });
+    chapters.push({
+      file: `chapter-${chapters.length + 1}.xhtml`,
+      title: plainHeading(heading),
+      body: toXhtml(html),
+    });
+  }
+
+  // ── Package ──
+  const source = opts.sourcePath ? path.basename(opts.sourcePath) : undefined;
+  const entries: ZipEntry[] = [
+    // The mimetype must come first, uncompressed
+    { name: "mimetype", data: Buffer.from("application/epub+zip"), store: true },
+    { name: "META-INF/container.xml", data: Buffer.from(CONTAINER_XML) },
+    {
+      name: "OEBPS/content.opf",
+      data: Buffer.from(packageDocument(title, source, notesProfile(markdown), chapters, images)),
+    },
+    { name: "OEBPS/nav.xhtml", data: Buffer.from(navDocument(title, chapters)) },
+    { name: "OEBPS/toc.ncx", data: Buffer.from(ncxDocument(title, source, chapters)) },
+    { name: "OEBPS/style.css", data: Buffer.from(EPUB_CSS) },
+    ...chapters.map((c) => ({
+      name: `OEBPS/${c.file}`,
+      data: Buffer.from(xhtmlDocument(c.title, c.body)),
+    })),
+    ...[...images].map(([name, file]) => ({
+      name: `OEBPS/images/${name}`,
+      data: fs.readFileSync(file),
+      store: true,
+    })),
+  ];
+  fs.writeFileSync(outputPath, createZip(entries));
+  console.log(`[out] EPUB saved to ${outputPath} (${chapters.length} chapters, ${images.size} images)`);
+}
+
+/** Marked emits HTML; EPUB content documents must be well-formed XML */
+function toXhtml(html: string): string {
+  return html
+    .replace(/<(br|hr|img|col|wbr|input)\b([^>]*?)\s*\/?>/gi, "<$1$2/>")
+    .replace(/ align="(\w+)"/g, ' style="text-align: $1"')
+    .replace(/&nbsp;/g, "&#160;")
+    .replace(/&(?!(?:#\d+|#x[0-9a-f]+|amp|lt|gt|quot|apos);)/gi, "&amp;");
+}
+
+/** Heading text for the table of contents: no citations or markdown emphasis */
+function plainHeading(heading: string): string {
+  return heading.replace(CITATION_PATTERN, "").replace(/[*_`]/g, "").trim();
+}
+
+/** Stable per title and deck, so a rebuilt book replaces the old one in readers' libraries */
+function bookId(title: string, source: string | undefined): string {
+  const hex = crypto.createHash("sha1").update(`${title}\0${source ?? ""}`).digest("hex");
+  return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function packageDocument(
+  title: string,
+  source: string | undefined,
+  profile: string | undefined,
+  chapters: Chapter[],
+  images: Map<string, string>
+): string {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const chapterItems = chapters.map((c, i) => {
+    const props = c.body.includes("<math") ? ` properties="mathml"` : "";
+    return `    <item id="chapter-${i + 1}" href="${c.file}" media-type="application/xhtml+xml"${props}/>`;
+  });
+  const imageItems = [...images.keys()].map(
+    (name, i) =>
+      `    <item id="image-${i + 1}" href="images/${escapeXml(encodeURIComponent(name))}" ` +
+      `media-type="${MEDIA_TYPES[path.extname(name).toLowerCase()]}"/>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${bookId(title, source)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>en</dc:language>
+${source ? `    <dc:source>${escapeXml(source)}</dc:source>\n` : ""}${profile ? `    <dc:description>Prompt profile: ${escapeXml(profile)}</dc:description>\n` : ""}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${[...chapterItems, ...imageItems].join("\n")}
+  </manifest>
+  <spine toc="ncx">
+${chapters.map((_, i) => `    <itemref idref="chapter-${i + 1}"/>`).join("\n")}
+  </spine>
+</package>
+`;
+}
+
+function navDocument(title: string, chapters: Chapter[]): string {
+  const items = chapters.map((c) => `      <li><a href="${c.file}">${escapeXml(c.title)}</a></li>`);
+  return xhtmlDocument(
+    title,
+    `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${items.join("\n")}
+  </ol>
+</nav>`
+  );
+}
+
+/** EPUB 2 table of contents, for older readers that ignore nav.xhtml */
+function ncxDocument(title: string, source: string | undefined, chapters: Chapter[]): string {
+  const points = chapters.map(
+    (c, i) => `    <navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+      <navLabel><text>${escapeXml(c.title)}</text></navLabel>
+      <content src="${c.file}"/>
+    </navPoint>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${bookId(title, source)}"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${points.join("\n")}
+  </navMap>
+</ncx>
+`;
+}
+
+function xhtmlDocument(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+// Readers apply their own fonts and margins; this only sets the structure
+const EPUB_CSS = `
+h1, h2, h3 { page-break-after: avoid; }
+h1 { color: #1e3a5f; }
+h2 { color: #1e40af; }
+figure { margin: 1em 0; text-align: center; page-break-inside: avoid; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-size: 0.85em; font-style: italic; color: #6b7280; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+th, td { border: 1px solid #d1d5db; padding: 0.3em 0.5em; text-align: left; }
+th { background: #f3f4f6; }
+pre, .mermaid { white-space: pre-wrap; font-family: monospace; font-size: 0.85em; }
+blockquote { border-left: 3px solid #2563eb; margin: 0.8em 0; padding: 0.2em 0.8em; }
+.math-display { margin: 0.6em 0; overflow-x: auto; }
+.math-error { color: #b91c1c; }
+.section-slides { font-size: 0.85em; color: #6b7280; }
+sup.fn a { text-decoration: none; }
+.footnotes { font-size: 0.8em; color: #6b7280; border-top: 1px solid #e5e7eb; margin-top: 1em; }
+mark.unsupported { background: #fef3c7; }
+mark.contradicted { background: #fee2e2; }
+`;
@@ -0,0 +1,362 @@
+import crypto from "node:crypto";
+import { CITATION_PATTERN, citationLabel, parseCitation } from "./citations.js";
+import type { SynthesisPageInput } from "./llm-analyzer.js";
+import type { ChatMessage, LLMProvider } from "./llm-provider.js";
+import { describeError } from "./llm-scheduler.js";
+import type { PromptProfile } from "./prompt-profiles.js";
+
+export type Verdict = "supported" | "unsupported" | "contradicted" | "unchecked";
+
+/** One sentence of the notes and what the verifier made of it */
+export interface ClaimCheck {
+  id: string;
+  /** The ## section the sentence is in */
+  section: string;
+  /** The sentence exactly as written in the markdown (used for highlighting) */
+  text: string;
+  verdict: Verdict;
+  /** Source page that supports or most closely relates to the claim */
+  nearestPage?: number;
+  reason?: string;
+}
+
+export interface FaithfulnessReport {
+  /** Hash of the notes that were checked; a stale report is not applied */
+  notesHash: string;
+  checked: number;
+  unsupported: number;
+  contradicted: number;
+  claims: ClaimCheck[];
+}
+
+interface Claim {
+  id: string;
+  section: string;
+  text: string;
+  /** Where the sentence starts: line index in the notes, and offset in that line */
+  line: number;
+  column: number;
+  plain: string;
+  cited: number[];
+}
+
+/** Claims sent per request, and source pages shown with them */
+const CLAIMS_PER_REQUEST = 30;
+const MAX_SOURCE_PAGES = 15;
+const MIN_CLAIM_WORDS = 4;
+
+/**
+ * Optional Step 3d: split the notes into sentence-level claims and have the
+ * model check each against the slide text, speaker notes and figure
+ * descriptions it was written from. Claims the sources don't back are
+ * reported and later highlighted by `highlightUnsupported`.
+ */
+export async function verifyNotes(
+  provider: LLMProvider,
+  notes: string,
+  sources: SynthesisPageInput[],
+  profile: PromptProfile
+): Promise<{ report: FaithfulnessReport; cost: number }> {
+  const claims = splitClaims(notes);
+  const pageWords = new Map(sources.map((p) => [p.pageNumber, wordSet(pageContent(p))]));
+  console.log(`[llm] Checking ${claims.length} statements against the slides...`);
+
+  // Claims of a section are checked together against that section's slides
+  const sections = new Map<string, Claim[]>();
+  for (const c of claims) sections.set(c.section, [...(sections.get(c.section) ?? []), c]);
+  const requests: Claim[][] = [];
+  for (const sectionClaims of sections.values()) {
+    for (let i = 0; i < sectionClaims.length; i += CLAIMS_PER_REQUEST) {
+      requests.push(sectionClaims.slice(i, i + CLAIMS_PER_REQUEST));
+    }
+  }
+
+  const results = await Promise.all(
+    requests.map(async (batch, idx) => {
+      const pages = sourcePagesFor(batch, sources, pageWords);
+      try {
+        const { text, cost, cached } = await provider.chat({
+          task: "verify",
+          messages: buildVerifyMessages(batch, pages, profile),
+          maxTokens: 150 + batch.length * 60,
+          temperature: 0,
+        });
+        console.log(
+          `  Check ${idx + 1}/${requests.length}: ${batch.length} statements ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
+        );
+        return { verdicts: parseVerdicts(text, pages), cost };
+      } catch (err) {
+        // Like a failed vision batch: report the claims as unchecked, keep going
+        console.warn(
+          `  Check ${idx + 1}/${requests.length} failed (${describeError(err)}); ${batch.length} statements left unchecked`
+        );
+        return { verdicts: new Map<string, ParsedVerdict>(), cost: 0 };
+      }
+    })
+  );
+
+  const verdicts = new Map(results.flatMap((r) => [...r.verdicts]));
+  const checks: ClaimCheck[] = claims.map((c) => {
+    const v = verdicts.get(c.id);
+    return {
+      id: c.id,
+      section: c.section,
+      text: c.text,
+      verdict: v?.verdict ?? "unchecked",
+      nearestPage: v?.page ?? nearestPage(c, pageWords),
+      ...(v?.reason ? { reason: v.reason } : {}),
+    };
+  });
+
+  const report: FaithfulnessReport = {
+    notesHash: hashNotes(notes),
+    checked: checks.filter((c) => c.verdict !== "unchecked").length,
+    unsupported: checks.filter((c) => c.verdict === "unsupported").length,
+    contradicted: checks.filter((c) => c.verdict === "contradicted").length,
+    claims: checks,
+  };
+  return { report, cost: results.reduce((sum, r) => sum + r.cost, 0) };
+}
+
+/**
+ * Wrap every unsupported or contradicted sentence in a highlight that names
+ * the nearest slide, and add a warning under the title. Returns the notes
+ * unchanged if the report was made for a different version of them.
+ */
+export function highlightUnsupported(notes: string, report: FaithfulnessReport): string {
+  if (report.notesHash !== hashNotes(notes)) {
+    console.warn("[verify] Notes changed since they were checked; not highlighting. Re-run --from-stage verify.");
+    return notes;
+  }
+  const flagged = report.claims.filter(
+    (c) => c.verdict === "unsupported" || c.verdict === "contradicted"
+  );
+  if (flagged.length === 0) return notes;
+
+  // Same notes, so the same claims: mark each where it was found, not
+  // wherever its text first occurs. Right to left keeps offsets valid.
+  const located = new Map(splitClaims(notes).map((c) => [c.id, c]));
+  const lines = notes.split("\n");
+  const marks = flagged
+    .map((check) => ({ check, at: located.get(check.id) }))
+    .filter((m): m is { check: ClaimCheck; at: Claim } => m.at?.text === m.check.text)
+    .sort((a, b) => b.at.line - a.at.line || b.at.column - a.at.column);
+  for (const { check: c, at } of marks) {
+    const where = c.nearestPage ? ` (closest source: ${citationLabel([c.nearestPage])})` : "";
+    const title =
+      c.verdict === "contradicted"
+        ? `Contradicts the slides${where}`
+        : `Not found in the slides${where}`;
+    const note = c.reason ? `: ${c.reason}` : "";
+    const line = lines[at.line];
+    const end = at.column + c.text.length;
+    lines[at.line] =
+      `${line.slice(0, at.column)}<mark class="${c.verdict}" title="${escapeAttr(title + note)}">` +
+      `${c.text}</mark>${line.slice(end)}`;
+  }
+  const result = lines.join("\n");
+
+  const banner =
+    `> **Check before you rely on it:** ${flagged.length} statement(s) could not be ` +
+    `verified against the slides and are highlighted.`;
+  const title = result.match(/^# .*$/m);
+  if (!title) return `${banner}\n\n${result}`;
+  const end = title.index! + title[0].length;
+  return `${result.slice(0, end)}\n\n${banner}${result.slice(end)}`;
+}
+
+export function hashNotes(notes: string): string {
+  return crypto.createHash("sha256").update(notes).digest("hex").slice(0, 16);
+}
+
+// ── Claims ──
+
+/**
+ * Sentences of paragraphs, bullets and quotes in the notes. Headings, code
+ * and diagrams, images, tables and questions are not claims.
+ */
+function splitClaims(notes: string): Claim[] {
+  const claims: Claim[] = [];
+  let section = "";
+  let inCode = false;
+
+  for (const [lineIdx, rawLine] of notes.split("\n").entries()) {
+    if (rawLine.trimStart().startsWith("```")) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+    const heading = rawLine.match(/^(#{1,2}) (.+)$/);
+    if (heading) {
+      if (heading[1] === "##") section = heading[2].trim();
+      continue;
+    }
+    if (/^\s*(#{3,6} |\||<|_Slides:_)/.test(rawLine)) continue;
+
+    const line = rawLine.replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, "");
+    let column = rawLine.length - line.length;
+    for (const sentence of splitSentences(line)) {
+      column = rawLine.indexOf(sentence, column);
+      const start = column;
+      column += sentence.length;
+      const plain = toPlainText(sentence);
+      if (plain.endsWith("?") || plain.split(/\s+/).length < MIN_CLAIM_WORDS) continue;
+      claims.push({
+        id: `C${claims.length + 1}`,
+        section,
+        text: sentence,
+        line: lineIdx,
+        column: start,
+        plain,
+        cited: [...sentence.matchAll(CITATION_PATTERN)].flatMap((m) => parseCitation(m[0])),
+      });
+    }
+  }
+  return claims;
+}
+
+function splitSentences(line: string): string[] {
+  // Split after . ! ? (and any citation following them) before a capital or markup
+  return line
+    .split(/(?<=[.!?](?:\s*\[p[^\]]*\])*)\s+(?=[A-Z*_(\d])/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "")
+    .replace(CITATION_PATTERN, " ")
+    .replace(/\*\*|__|[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ── Source material ──
+
+/** Pages the claims cite, topped up with the pages that share most words with them */
+function sourcePagesFor(
+  claims: Claim[],
+  sources: SynthesisPageInput[],
+  pageWords: Map<number, Set<string>>
+): SynthesisPageInput[] {
+  const cited = new Set(claims.flatMap((c) => c.cited));
+  const words = wordSet(claims.map((c) => c.plain).join(" "));
+  const ranked = sources
+    .filter((p) => !cited.has(p.pageNumber))
+    .map((p) => ({ p, score: overlap(words, pageWords.get(p.pageNumber)!) }))
+    .sort((a, b) => b.score - a.score)
+    .map((r) => r.p);
+  const chosen = [
+    ...sources.filter((p) => cited.has(p.pageNumber)),
+    ...ranked,
+  ].slice(0, Math.max(MAX_SOURCE_PAGES, cited.size));
+  return chosen.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+function pageContent(p: SynthesisPageInput): string {
+  let entry = `[p${p.pageNumber}] ${p.text}`;
+  if (p.notes) entry += `\n  Speaker notes: ${p.notes}`;
+  for (const img of p.images) entry += `\n  Figure ${img.imageId}: ${img.description}`;
+  return entry;
+}
+
+function nearestPage(claim: Claim, pageWords: Map<number, Set<string>>): number | undefined {
+  const words = wordSet(claim.plain);
+  let best: number | undefined;
+  let bestScore = 0;
+  for (const [page, pw] of pageWords) {
+    const score = overlap(words, pw);
+    if (score > bestScore) {
+      best = page;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9α-ω]+/)
+      .filter((w) => w.length > 3)
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return a.size === 0 ? 0 : shared / a.size;
+}
+
+// ── Model round trip ──
+
+function buildVerifyMessages(
+  claims: Claim[],
+  pages: SynthesisPageInput[],
+  profile: PromptProfile
+): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: `${profile.prompts.verifySystem} You judge statements ONLY against the lecture source material you are given. Output valid JSON only.`,
+    },
+    {
+      role: "user",
+      content: `Check each numbered statement from the study notes against the SOURCE material (slide text, speaker notes and figure descriptions).
+
+Verdicts:
+- "supported": the source states it or it follows directly from the source.
+- "unsupported": the source does not contain it (even if it may be true in general).
+- "contradicted": the source says something different.
+
+Be strict: background knowledge that is not in the source is "unsupported". Ignore wording and style; judge facts only.
+
+Respond with ONLY a JSON object:
+{"results": [{"id": "C1", "verdict": "supported", "page": 12, "reason": "short explanation for unsupported or contradicted"}]}
+"page" is the source page that supports the statement or, if none does, the one closest to it.
+
+--- STATEMENTS ---
+${claims.map((c) => `${c.id}. ${c.plain}`).join("\n")}
+
+--- SOURCE ---
+${pages.map(pageContent).join("\n\n")}`,
+    },
+  ];
+}
+
+interface ParsedVerdict {
+  verdict: Verdict;
+  page?: number;
+  reason?: string;
+}
+
+function parseVerdicts(text: string, pages: SynthesisPageInput[]): Map<string, ParsedVerdict> {
+  const verdicts = new Map<string, ParsedVerdict>();
+  const json = text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+  let data: { results?: unknown };
+  try {
+    data = JSON.parse(json) as { results?: unknown };
+  } catch {
+    console.warn("[verify] Could not parse a verification response; its statements stay unchecked");
+    return verdicts;
+  }
+
+  const validPages = new Set(pages.map((p) => p.pageNumber));
+  for (const r of Array.isArray(data.results) ? data.results : []) {
+    const { id, verdict, page, reason } = (r ?? {}) as Record<string, unknown>;
+    if (typeof id !== "string") continue;
+    if (verdict !== "supported" && verdict !== "unsupported" && verdict !== "contradicted") continue;
+    verdicts.set(id, {
+      verdict,
+      ...(typeof page === "number" && validPages.has(page) ? { page } : {}),
+      ...(typeof reason === "string" && reason.trim() ? { reason: reason.trim() } : {}),
+    });
+  }
+  return verdicts;
+}
+
+function escapeAttr(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
@@ -0,0 +1,446 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import initSqlJs from "sql.js";
+import { CITATION_PATTERN, citationLabel, parseCitation } from "./citations.js";
+import type { ImageDescription, TopicWithPages } from "./llm-analyzer.js";
+import {
+  isGlossaryHeading,
+  normalizeText,
+  parseGlossary,
+  parseQuestions,
+  splitSections,
+  topicForPages,
+  type Section,
+} from "./notes-sections.js";
+import { createZip } from "./zip.js";
+
+export type FlashcardFormat = "anki" | "csv" | "tsv";
+
+export interface Flashcard {
+  /** Derived from the deck and the card's question, term or image, so it survives re-runs */
+  guid: string;
+  kind: "question" | "term" | "diagram";
+  /** Card sides as HTML (Anki's field format; math as \( \) for its MathJax) */
+  front: string;
+  back: string;
+  /** e.g. "Slides 4–6" */
+  source: string;
+  tags: string[];
+  media: CardMedia[];
+}
+
+export interface CardMedia {
+  /** File in the images directory */
+  source: string;
+  /** Name in the deck; prefixed with the deck key so decks don't overwrite each other's media */
+  name: string;
+}
+
+export interface FlashcardDeck {
+  name: string;
+  /** Stable identifier of the lecture (from the input file name) */
+  key: string;
+  cards: Flashcard[];
+}
+
+export interface FlashcardSources {
+  deckKey: string;
+  topics: TopicWithPages[];
+  imageDescriptions: ImageDescription[];
+}
+
+/**
+ * Turn the study notes into flashcards: one per review question, glossary
+ * term and inline diagram. Cards are tagged with the topic they belong to.
+ */
+export function buildFlashcards(notes: string, sources: FlashcardSources): FlashcardDeck {
+  const { deckKey, topics } = sources;
+  const name = notes.match(/^# (.+)$/m)?.[1].trim() ?? deckKey;
+  const sections = splitSections(notes, topics);
+  const topicSections = sections.filter((s) => s.topic);
+  const cards: Flashcard[] = [];
+
+  const card = (
+    kind: Flashcard["kind"],
+    key: string,
+    front: string,
+    back: string,
+    topic: TopicWithPages | undefined,
+    pages: number[],
+    media: CardMedia[] = []
+  ) => {
+    const guid = stableId(deckKey, kind, key.toLowerCase().replace(/\s+/g, " ").trim());
+    if (cards.some((c) => c.guid === guid)) return;
+    cards.push({
+      guid,
+      kind,
+      front,
+      back,
+      source: pages.length > 0 ? capitalize(citationLabel(pages)) : "",
+      tags: [KIND_TAGS[kind], ...(topic ? [`topic::${slug(topic.name)}`] : [])],
+      media,
+    });
+  };
+
+  for (const section of sections) {
+    if (/review questions|self-test/i.test(section.heading)) {
+      for (const { question, answer } of parseQuestions(section.body)) {
+        const pages = citedPages(question + answer);
+        const topic =
+          topicForPages(topics, pages) ?? closestSection(topicSections, question + " " + answer)?.topic;
+        card("question", question, toCardHtml(question), toCardHtml(answer), topic, pages);
+      }
+    } else if (isGlossaryHeading(section.heading)) {
+      for (const { term, definition } of parseGlossary(section.body)) {
+        const pages = citedPages(definition);
+        const topic =
+          topicForPages(topics, pages) ??
+          topicSections.find((s) => s.body.toLowerCase().includes(term.toLowerCase()))?.topic;
+        card("term", term, toCardHtml(term), toCardHtml(definition), topic, pages);
+      }
+    }
+  }
+
+  const descriptions = new Map(sources.imageDescriptions.map((d) => [d.imageId, d]));
+  for (const section of topicSections) {
+    for (const [, caption, file] of section.body.matchAll(/!\[([^\]]*)\]\(([^)]+)\)/g)) {
+      const description = descriptions.get(path.basename(file, path.extname(file)));
+      const media = { source: file, name: `${deckKey}-${path.basename(file)}` };
+      const back = [
+        caption && `<b>${toCardHtml(caption)}</b>`,
+        description && toCardHtml(description.description),
+      ]
+        .filter(Boolean)
+        .join("<br><br>");
+      card(
+        "diagram",
+        file,
+        `<img src="${media.name}"><br>What does this diagram show? <i>(${escapeHtml(section.topic!.name)})</i>`,
+        back || escapeHtml(section.heading),
+        section.topic,
+        description ? [description.pageNumber] : [],
+        [media]
+      );
+    }
+  }
+
+  return { name, key: deckKey, cards };
+}
+
+export function flashcardsFile(outputDir: string, format: FlashcardFormat): string {
+  const ext = { anki: "apkg", csv: "csv", tsv: "tsv" }[format];
+  return path.join(outputDir, `flashcards.${ext}`);
+}
+
+/** Write the deck as an Anki package, or as a CSV/TSV table with its images alongside */
+export async function writeFlashcards(
+  deck: FlashcardDeck,
+  outFile: string,
+  format: FlashcardFormat,
+  imagesDir: string
+): Promise<void> {
+  const counts = (["question", "term", "diagram"] as const)
+    .map((k) => `${deck.cards.filter((c) => c.kind === k).length} ${KIND_TAGS[k]}`)
+    .join(", ");
+  console.log(`[out] ${deck.cards.length} flashcards (${counts})`);
+  if (deck.cards.length === 0) {
+    console.warn("[out] Warning: no Review Questions, Glossary or diagrams found in the notes");
+  }
+
+  if (format === "anki") {
+    fs.writeFileSync(outFile, await ankiPackage(deck, imagesDir));
+    console.log(`[out] Anki deck saved to ${outFile}`);
+    return;
+  }
+
+  fs.writeFileSync(outFile, format === "tsv" ? ankiText(deck) : csvTable(deck), "utf-8");
+  console.log(`[out] Flashcards saved to ${outFile}`);
+  const media = deck.cards.flatMap((c) => c.media);
+  if (media.length > 0) {
+    const mediaDir = path.join(path.dirname(outFile), "flashcard-media");
+    fs.mkdirSync(mediaDir, { recursive: true });
+    for (const m of media) {
+      fs.copyFileSync(path.join(imagesDir, m.source), path.join(mediaDir, m.name));
+    }
+    console.log(
+      `[out] ${media.length} card images saved to ${mediaDir} ` +
+        `(copy them into Anki's collection.media folder before importing)`
+    );
+  }
+}
+
+// ── Parsing the notes ──
+
+const KIND_TAGS: Record<Flashcard["kind"], string> = {
+  question: "review-question",
+  term: "glossary",
+  diagram: "diagram",
+};
+
+function citedPages(text: string): number[] {
+  return [...new Set([...text.matchAll(CITATION_PATTERN)].flatMap((m) => parseCitation(m[0])))];
+}
+
+/** The section sharing the most words with the text */
+function closestSection(sections: Section[], text: string): Section | undefined {
+  const words = new Set(normalizeText(text).split(" ").filter((w) => w.length > 3));
+  let best: Section | undefined;
+  let bestScore = 0;
+  for (const s of sections) {
+    const body = normalizeText(s.body);
+    const score = [...words].filter((w) => body.includes(w)).length;
+    if (score > bestScore) {
+      best = s;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ── Card fields ──
+
+/** Notes markdown → Anki field HTML: bold/italics, math for MathJax, no citations */
+function toCardHtml(markdown: string): string {
+  const text = markdown
+    .replace(CITATION_PATTERN, " ")
+    .replace(/[ \t]+([.,;:!?)])/g, "$1")
+    .replace(/^[ \t]*[-*][ \t]+/gm, "• ")
+    .trim();
+  return escapeHtml(text)
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, tex: string) => `\\[${tex.trim()}\\]`)
+    .replace(/\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/g, "\\($1\\)")
+    .replace(/\*\*(.+?)\*\*/g, "<b>$1</b>")
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, "$1<i>$2</i>")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n/g, "<br>");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// ── Anki package (.apkg) ──
+
+const NOTE_TYPE_NAME = "Study Notes Card";
+const NOTE_TYPE_ID = numericId("ppt-summarizer", "note-type");
+const CARD_CSS = `.card { font-family: system-ui, sans-serif; font-size: 20px; text-align: center; color: #1a1a1a; background: #fff; }
+.card img { max-width: 100%; }
+.source { margin-top: 16px; font-size: 14px; color: #6b7280; }`;
+
+/**
+ * A collection with one deck, one note type and the cards as new notes,
+ * zipped with its media. Anki matches notes by guid on import, so an
+ * updated deck updates existing cards (and keeps their review history).
+ */
+async function ankiPackage(deck: FlashcardDeck, imagesDir: string): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  const nowMs = Date.now();
+  const now = Math.floor(nowMs / 1000);
+  const deckId = numericId(deck.key, "deck");
+
+  db.run(ANKI_SCHEMA);
+  db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+    now - (now % 86400),
+    nowMs,
+    nowMs,
+    JSON.stringify(COLLECTION_CONF),
+    JSON.stringify({ [NOTE_TYPE_ID]: noteType(deckId, now) }),
+    JSON.stringify({ 1: deckJson(1, "Default", now), [deckId]: deckJson(deckId, deck.name, now) }),
+    JSON.stringify(DECK_CONF),
+  ]);
+
+  deck.cards.forEach((c, i) => {
+    const noteId = numericId(c.guid, "note");
+    const sortField = c.front.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+    db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+      noteId,
+      c.guid,
+      NOTE_TYPE_ID,
+      now,
+      ` ${c.tags.join(" ")} `,
+      [c.front, c.back, c.source].join("\x1f"),
+      sortField,
+      parseInt(sha1(sortField).slice(0, 8), 16),
+    ]);
+    db.run(
+      "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')",
+      [numericId(c.guid, "card"), noteId, deckId, now, i + 1]
+    );
+  });
+  const collection = Buffer.from(db.export());
+  db.close();
+
+  const media = deck.cards.flatMap((c) => c.media);
+  return createZip([
+    { name: "collection.anki2", data: collection },
+    { name: "media", data: Buffer.from(JSON.stringify(Object.fromEntries(media.map((m, i) => [i, m.name])))) },
+    ...media.map((m, i) => ({
+      name: String(i),
+      data: fs.readFileSync(path.join(imagesDir, m.source)),
+      store: true,
+    })),
+  ]);
+}
+
+function noteType(deckId: number, now: number) {
+  const field = (name: string, ord: number) => ({
+    name,
+    ord,
+    font: "Arial",
+    media: [],
+    rtl: false,
+    size: 20,
+    sticky: false,
+  });
+  return {
+    id: NOTE_TYPE_ID,
+    name: NOTE_TYPE_NAME,
+    type: 0,
+    mod: now,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: '{{FrontSide}}\n<hr id="answer">\n{{Back}}\n{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+        bqfmt: "",
+        bafmt: "",
+        did: null,
+        bfont: "",
+        bsize: 0,
+      },
+    ],
+    flds: [field("Front", 0), field("Back", 1), field("Source", 2)],
+    css: CARD_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function deckJson(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    desc: "",
+    mod: now,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const COLLECTION_CONF = {
+  activeDecks: [1],
+  curDeck: 1,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  estTimes: true,
+  dueCounts: true,
+  curModel: null,
+  nextPos: 1,
+  sortType: "noteFld",
+  sortBackwards: false,
+  addToCur: true,
+};
+
+const DECK_CONF = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  },
+};
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);`;
+
+// ── Tables ──
+
+/** Anki's text import format: the headers carry the guid, tags and deck */
+function ankiText(deck: FlashcardDeck): string {
+  const field = (s: string) => s.replace(/[\t\r\n]+/g, " ");
+  const header = [
+    "#separator:tab",
+    "#html:true",
+    `#deck:${field(deck.name)}`,
+    "#guid column:1",
+    "#tags column:4",
+    "#columns:GUID\tFront\tBack\tTags",
+  ];
+  const rows = deck.cards.map((c) =>
+    [c.guid, c.front, withSource(c), c.tags.join(" ")].map(field).join("\t")
+  );
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+function csvTable(deck: FlashcardDeck): string {
+  const field = (s: string) => (/[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+  const rows = deck.cards.map((c) =>
+    [c.guid, c.front, withSource(c), c.tags.join(" ")].map(field).join(",")
+  );
+  return ["guid,front,back,tags", ...rows].join("\r\n") + "\r\n";
+}
+
+function withSource(card: Flashcard): string {
+  return card.source ? `${card.back}<br><br><small>${card.source}</small>` : card.back;
+}
+
+// ── Ids ──
+
+function stableId(...parts: string[]): string {
+  return crypto.createHash("sha1").update(parts.join("\0")).digest("base64url").slice(0, 12);
+}
+
+/** A positive integer id (Anki ids are 64-bit; 48 bits keeps it a safe JS number) */
+function numericId(...parts: string[]): number {
+  return parseInt(sha1(parts.join("\0")).slice(0, 12), 16);
+}
+
+function sha1(text: string): string {
+  return crypto.createHash("sha1").update(text).digest("hex");
+}
+
+function slug(text: string): string {
+  return normalizeText(text).replace(/ /g, "-") || "topic";
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,281 @@
+import { CITATION_PATTERN } from "./citations.js";
+import { isGlossaryHeading, normalizeText, parseGlossary, splitSections } from "./notes-sections.js";
+import { escapeXml } from "./xml.js";
+
+/**
+ * The interactive reader for HTML output: a sticky table of contents,
+ * collapsible sections, full-text search, click-to-zoom figures, glossary
+ * tooltips on bold terms and "understood" ticks kept in localStorage.
+ * Everything is inline, so the page stays one file that works offline.
+ */
+
+interface Heading {
+  level: number;
+  id: string;
+  text: string;
+}
+
+/** Restructure the notes' HTML (from markdownToHtml) into the reader */
+export function interactiveReader(html: string, markdown: string): string {
+  const title = markdown.match(/^# (.+)$/m)?.[1].trim() ?? "Study Notes";
+  const addTooltips = glossaryTooltips(markdown);
+
+  // ── Headings: ids for the contents ──
+  const headings: Heading[] = [];
+  const used = new Set<string>();
+  const withIds = html.replace(/<h([1-3])>([\s\S]*?)<\/h\1>/g, (_, level: string, inner: string) => {
+    const text = headingText(inner);
+    const id = uniqueId(text, used);
+    headings.push({ level: Number(level), id, text });
+    return `<h${level} id="${id}">${inner}</h${level}>`;
+  });
+
+  // ── Sections: everything before the first ## is the intro, then one collapsible section per ## ──
+  const [intro, ...parts] = withIds.split(/(?=<h2 id=")/);
+  const topicIds = new Set<string>();
+  const sections = parts.map((part) => {
+    const [, h2, id, body] = part.match(/^(<h2 id="([^"]+)">[\s\S]*?<\/h2>)([\s\S]*)$/)!;
+    const heading = headings.find((h) => h.id === id)!;
+    const isGlossary = isGlossaryHeading(heading.text);
+    // Topic sections open with their "Slides:" line; only those can be ticked off
+    const isTopic = body.includes('class="section-slides"');
+    if (isTopic) topicIds.add(id);
+    const tick = isTopic
+      ? `<label class="understood"><input type="checkbox" data-understood="${id}"> Mark as understood</label>\n`
+      : "";
+    return `<section class="reader-section">
+<details open>
+<summary>${h2}</summary>
+${isGlossary ? body : addTooltips(body)}${tick}</details>
+</section>`;
+  });
+
+  return `<div class="reader">
+${contents(headings, topicIds)}
+<main class="reader-main">
+<section class="reader-section reader-intro">
+${addTooltips(intro)}</section>
+${sections.join("\n")}
+</main>
+</div>
+<div id="reader-zoom" hidden></div>
+${readerScript(title)}`;
+}
+
+function contents(headings: Heading[], topicIds: Set<string>): string {
+  const items: string[] = [];
+  for (const h of headings) {
+    const link = `<a href="#${h.id}"${topicIds.has(h.id) ? ` data-topic="${h.id}"` : ""}>${h.text}</a>`;
+    if (h.level === 2) {
+      if (items.length > 0) items.push("</ol></li>");
+      items.push(`<li>${link}<ol>`);
+    } else if (h.level === 3 && items.length > 0) {
+      items.push(`<li>${link}</li>`);
+    }
+  }
+  if (items.length > 0) items.push("</ol></li>");
+  return `<nav class="reader-nav" aria-label="Contents">
+<input type="search" id="reader-search" placeholder="Search the notes" aria-label="Search the notes">
+<p class="reader-status"><span id="reader-hits"></span><span id="reader-progress"></span></p>
+<ol>${items.join("").replace(/<ol><\/ol>/g, "")}</ol>
+</nav>`;
+}
+
+/** Heading HTML as plain text for the contents: no citations or tags */
+function headingText(inner: string): string {
+  return inner
+    .replace(/<span class="cite"[^>]*>[\s\S]*?<\/span>/g, "")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+}
+
+/** Slug of the heading in any script ("Ätiologie" → "ätiologie"); progress is kept by these ids */
+function uniqueId(text: string, used: Set<string>): string {
+  const base =
+    text
+      .replace(/&#?\w+;/g, " ")
+      .normalize("NFC")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section";
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  used.add(id);
+  return id;
+}
+
+/**
+ * Bold terms that have a Glossary entry get their definition as a tooltip,
+ * shown on hover or keyboard focus.
+ */
+function glossaryTooltips(markdown: string): (html: string) => string {
+  const glossary = splitSections(markdown, []).find((s) => isGlossaryHeading(s.heading));
+  const byName = new Map<string, string>();
+  for (const { term, definition } of glossary ? parseGlossary(glossary.body) : []) {
+    const text = definition.replace(CITATION_PATTERN, "").replace(/[*_`]/g, "").trim();
+    const key = normalizeText(term);
+    byName.set(key, text);
+    // Bold terms are often plural in running text
+    byName.set(key.endsWith("s") ? key.slice(0, -1) : `${key}s`, text);
+  }
+  if (byName.size === 0) return (html) => html;
+
+  return (html) =>
+    html.replace(/<strong>([^<]+)<\/strong>/g, (bold, text: string) => {
+      const definition = byName.get(normalizeText(text));
+      if (!definition) return bold;
+      return `<strong class="gloss" tabindex="0" data-definition="${escapeXml(definition)}">${text}</strong>`;
+    });
+}
+
+function readerScript(title: string): string {
+  // "</" cannot appear inside a <script> element
+  const storageKey = JSON.stringify(`study-notes:${title}`).replace(/</g, "\\u003c");
+  return `<script>
+  (function () {
+    var main = document.querySelector('.reader-main');
+    var sections = Array.prototype.slice.call(main.querySelectorAll('.reader-section'));
+
+    // ── Progress: "understood" ticks per topic, kept in localStorage ──
+    var key = ${storageKey};
+    var done = {};
+    try { done = JSON.parse(localStorage.getItem(key)) || {}; } catch (e) {}
+    var boxes = main.querySelectorAll('[data-understood]');
+    var progress = document.getElementById('reader-progress');
+    function showProgress() {
+      var count = 0;
+      boxes.forEach(function (box) {
+        var id = box.dataset.understood;
+        box.checked = !!done[id];
+        if (done[id]) count++;
+        box.closest('.reader-section').classList.toggle('done', !!done[id]);
+        var link = document.querySelector('.reader-nav [data-topic="' + id + '"]');
+        if (link) link.classList.toggle('done', !!done[id]);
+      });
+      progress.textContent = boxes.length ? count + ' of ' + boxes.length + ' topics understood' : '';
+    }
+    boxes.forEach(function (box) {
+      // Understood topics start folded away
+      if (done[box.dataset.understood]) box.closest('details').open = false;
+      box.addEventListener('change', function () {
+        if (box.checked) {
+          done[box.dataset.understood] = true;
+          box.closest('details').open = false;
+        } else {
+          delete done[box.dataset.understood];
+        }
+        try { localStorage.setItem(key, JSON.stringify(done)); } catch (e) {}
+        showProgress();
+      });
+    });
+    showProgress();
+
+    // ── Contents: following a link unfolds the section ──
+    function reveal(id) {
+      var target = document.getElementById(id);
+      var details = target && target.closest('details');
+      if (details) details.open = true;
+    }
+    document.querySelectorAll('.reader-nav a').forEach(function (a) {
+      a.addEventListener('click', function () { reveal(a.getAttribute('href').slice(1)); });
+    });
+    if (location.hash) reveal(decodeURIComponent(location.hash.slice(1)));
+
+    // ── Search: highlight matches, hide sections without any ──
+    var search = document.getElementById('reader-search');
+    var hits = document.getElementById('reader-hits');
+    var current = -1;
+    function clearHits() {
+      main.querySelectorAll('mark.hit').forEach(function (mark) {
+        var parent = mark.parentNode;
+        parent.replaceChild(document.createTextNode(mark.textContent), mark);
+        parent.normalize();
+      });
+    }
+    function highlight(root, query) {
+      var walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+        acceptNode: function (node) {
+          return node.parentNode.closest('script, style, svg, math, .understood')
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_ACCEPT;
+        },
+      });
+      var nodes = [];
+      while (walker.nextNode()) nodes.push(walker.currentNode);
+      var count = 0;
+      nodes.forEach(function (node) {
+        var text = node.nodeValue;
+        var lower = text.toLowerCase();
+        var i = lower.indexOf(query);
+        if (i < 0) return;
+        var fragment = document.createDocumentFragment();
+        var last = 0;
+        for (; i >= 0; i = lower.indexOf(query, last)) {
+          fragment.appendChild(document.createTextNode(text.slice(last, i)));
+          var mark = document.createElement('mark');
+          mark.className = 'hit';
+          mark.textContent = text.slice(i, i + query.length);
+          fragment.appendChild(mark);
+          count++;
+          last = i + query.length;
+        }
+        fragment.appendChild(document.createTextNode(text.slice(last)));
+        node.parentNode.replaceChild(fragment, node);
+      });
+      return count;
+    }
+    function runSearch() {
+      clearHits();
+      current = -1;
+      var query = search.value.trim().toLowerCase();
+      var active = query.length >= 2;
+      var total = 0;
+      sections.forEach(function (section) {
+        var count = active ? highlight(section, query) : 0;
+        total += count;
+        section.hidden = active && count === 0;
+        var details = section.querySelector('details');
+        if (details && count > 0) details.open = true;
+        var heading = section.querySelector('h2');
+        var link = heading && document.querySelector('.reader-nav a[href="#' + heading.id + '"]');
+        if (link) link.parentNode.classList.toggle('no-hits', section.hidden);
+      });
+      hits.textContent = active ? (total === 1 ? '1 match' : total + ' matches') + ' · ' : '';
+    }
+    var timer;
+    search.addEventListener('input', function () {
+      clearTimeout(timer);
+      timer = setTimeout(runSearch, 200);
+    });
+    // Enter steps through the matches
+    search.addEventListener('keydown', function (e) {
+      if (e.key !== 'Enter') return;
+      var marks = main.querySelectorAll('mark.hit');
+      if (!marks.length) return;
+      if (current >= 0) marks[current].classList.remove('current');
+      current = (current + 1) % marks.length;
+      marks[current].classList.add('current');
+      marks[current].scrollIntoView({ block: 'center' });
+    });
+
+    // ── Zoom: click a figure or diagram to see it full-window ──
+    var zoom = document.getElementById('reader-zoom');
+    main.querySelectorAll('figure img, .mermaid').forEach(function (el) {
+      el.addEventListener('click', function () {
+        zoom.innerHTML = '';
+        zoom.appendChild(el.cloneNode(true));
+        zoom.hidden = false;
+      });
+    });
+    zoom.addEventListener('click', function () { zoom.hidden = true; });
+    document.addEventListener('keydown', function (e) {
+      if (e.key === 'Escape') zoom.hidden = true;
+    });
+
+    // Printing shows every section
+    window.addEventListener('beforeprint', function () {
+      main.querySelectorAll('details').forEach(function (details) { details.open = true; });
+    });
+  })();
+</script>`;
+}
@@ -0,0 +1,146 @@
+import sharp from "sharp";
+import fs from "node:fs";
+import path from "node:path";
+import type { ExtractedImage, PageData } from "./pdf-processor.js";
+
+export interface ImageFilterOptions {
+  /** Max Hamming distance between 64-bit dHashes to count as the same picture */
+  maxHashDistance: number;
+  /** Pictures on more than this share of pages (0–1) are template decoration */
+  maxPageShare: number;
+  /** Mean per-channel standard deviation below which an image is "uniform" */
+  minStdDev: number;
+  /** Width/height (or height/width) ratio above which an image is a strip */
+  maxAspectRatio: number;
+}
+
+export type DropReason =
+  | "too-small"
+  | "uniform"
+  | "extreme-aspect-ratio"
+  | "recurring"
+  | "duplicate";
+
+export interface DroppedImage {
+  /** Unset for images rejected before they were given an ID */
+  id?: string;
+  pageNumber: number;
+  width: number;
+  height: number;
+  reason: DropReason;
+  detail: string;
+  /** Copy kept for auditing, relative to the images directory */
+  file?: string;
+}
+
+/**
+ * Drop near-duplicates, slide-template decoration and low-information
+ * images from `pages` (in place). Returns what was dropped and why; the
+ * dropped pictures are saved under `<imagesDir>/dropped/` for auditing.
+ */
+export async function filterImages(
+  pages: PageData[],
+  imagesDir: string,
+  opts: ImageFilterOptions
+): Promise<DroppedImage[]> {
+  const dropped: DroppedImage[] = [];
+  const drop = async (img: ExtractedImage, reason: DropReason, detail: string) => {
+    const file = path.posix.join("dropped", img.filename);
+    fs.mkdirSync(path.join(imagesDir, "dropped"), { recursive: true });
+    await sharp(img.buffer).jpeg().toFile(path.join(imagesDir, file));
+    dropped.push({
+      id: img.id,
+      pageNumber: img.pageNumber,
+      width: img.width,
+      height: img.height,
+      reason,
+      detail,
+      file,
+    });
+  };
+
+  // ── Low-information images ──
+  const candidates: { img: ExtractedImage; hash: bigint }[] = [];
+  for (const img of pages.flatMap((p) => p.images)) {
+    const ratio = Math.max(img.width / img.height, img.height / img.width);
+    if (ratio > opts.maxAspectRatio) {
+      await drop(img, "extreme-aspect-ratio", `aspect ratio ${ratio.toFixed(1)}:1`);
+      continue;
+    }
+    const stdDev = await meanStdDev(img.buffer);
+    if (stdDev < opts.minStdDev) {
+      await drop(img, "uniform", `near-uniform colour (std dev ${stdDev.toFixed(1)})`);
+      continue;
+    }
+    candidates.push({ img, hash: await differenceHash(img.buffer) });
+  }
+
+  // ── Group perceptually similar images (in page order) ──
+  const groups: { hash: bigint; members: ExtractedImage[] }[] = [];
+  for (const { img, hash } of candidates) {
+    const group = groups.find(
+      (g) => hammingDistance(g.hash, hash) <= opts.maxHashDistance
+    );
+    if (group) group.members.push(img);
+    else groups.push({ hash, members: [img] });
+  }
+
+  const keep = new Set<ExtractedImage>();
+  for (const { members } of groups) {
+    const pageCount = new Set(members.map((m) => m.pageNumber)).size;
+    const share = pageCount / pages.length;
+    if (pageCount >= 3 && share > opts.maxPageShare) {
+      for (const m of members) {
+        await drop(
+          m,
+          "recurring",
+          `recurs on ${pageCount} of ${pages.length} pages (${Math.round(share * 100)}%)`
+        );
+      }
+      continue;
+    }
+    const [first, ...rest] = members;
+    keep.add(first);
+    for (const m of rest) await drop(m, "duplicate", `near-duplicate of ${first.id}`);
+  }
+
+  for (const p of pages) p.images = p.images.filter((img) => keep.has(img));
+  return dropped;
+}
+
+export function summarizeDropped(dropped: DroppedImage[]): string {
+  const counts = new Map<DropReason, number>();
+  for (const d of dropped) counts.set(d.reason, (counts.get(d.reason) ?? 0) + 1);
+  return [...counts].map(([reason, n]) => `${n} ${reason}`).join(", ");
+}
+
+/** 64-bit difference hash: sign of horizontal gradients on a 9×8 greyscale thumbnail */
+async function differenceHash(data: Buffer): Promise<bigint> {
+  const pixels = await sharp(data)
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (pixels[y * 9 + x] < pixels[y * 9 + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let x = a ^ b;
+  let count = 0;
+  while (x) {
+    count += Number(x & 1n);
+    x >>= 1n;
+  }
+  return count;
+}
+
+async function meanStdDev(data: Buffer): Promise<number> {
+  const { channels } = await sharp(data).removeAlpha().stats();
+  return channels.reduce((sum, c) => sum + c.stdev, 0) / channels.length;
+}
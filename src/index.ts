@@ -1,166 +1,835 @@
 import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
-import { CONFIG } from "./config.js";
-import { processPDF } from "./pdf-processor.js";
 import {
-  analyzeAndSynthesize,
-  type SynthesisPageInput,
-} from "./llm-analyzer.js";
-import { generateOutput, type OutputFormat } from "./pdf-writer.js";
+  CONFIG,
+  CONFIG_FILE,
+  ConfigError,
+  ENV_PREFIX,
+  envName,
+  formatConfig,
+  loadConfig,
+  type ConfigKey,
+} from "./config.js";
+import {
+  createProvider,
+  pricingFor,
+  PROVIDER_NAMES,
+  type LLMProvider,
+  type ProviderName,
+} from "./llm-provider.js";
+import { clearCache, withCache, type CacheMode } from "./llm-cache.js";
+import { BudgetExceededError, withBudget } from "./cost-estimator.js";
+import { TopicExtractionError } from "./llm-analyzer.js";
+import {
+  withScheduler,
+  type SchedulerOptions,
+  type SchedulerStats,
+} from "./llm-scheduler.js";
+import type { ImageFilterOptions } from "./image-filter.js";
+import {
+  listProfiles,
+  loadProfile,
+  profileLabel,
+  ProfileError,
+  type PromptProfile,
+} from "./prompt-profiles.js";
+import {
+  DEFAULT_STYLE,
+  PAGE_SIZES,
+  parseMargins,
+  THEMES,
+  type DocumentStyle,
+  type ThemeName,
+} from "./themes.js";
+import { printBatchSummary, runBatch } from "./batch.js";
+import {
+  INPUT_EXTENSIONS,
+  MissingCheckpointError,
+  OUTPUT_FORMATS,
+  parseStage,
+  runPipeline,
+  STAGES,
+  type OutputFormat,
+  type StageName,
+} from "./pipeline.js";
 
 async function main() {
   const t0 = performance.now();
 
-  const { inputPath, format } = parseArgs();
-  const pdfPath = resolveInput(inputPath);
-  console.log(`\nInput:  ${pdfPath}`);
-  console.log(`Format: ${format}\n`);
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey || apiKey === "your-api-key-here") {
-    console.error("Error: Set OPENAI_API_KEY in .env");
-    process.exit(1);
+  const args = parseArgs();
+  const { format } = args;
+  const inputs = resolveInputs(args);
+  if (args.clearCache) {
+    const removed = clearCache(CONFIG.cacheDir);
+    console.log(`[cache] Cleared ${removed} entries from ${CONFIG.cacheDir}`);
   }
-
-  fs.mkdirSync(CONFIG.outputDir, { recursive: true });
-
-  // ── Step 1: Extract text + images from PDF ──
-  const t1 = performance.now();
-  const { pages, totalImages } = await processPDF(pdfPath);
-  const step1Time = ((performance.now() - t1) / 1000).toFixed(1);
-  console.log(`  Step 1 took ${step1Time}s\n`);
-
-  // ── Step 2 & 3: LLM vision analysis + note synthesis ──
-  const {
-    studyNotes,
-    costEstimate,
-    imageDescriptions,
-    synthesisInputPages,
-  } = await analyzeAndSynthesize(pages, apiKey);
-
-  // Save intermediate results
-  const imageDescPath = path.join(CONFIG.outputDir, "image-descriptions.json");
-  fs.writeFileSync(
-    imageDescPath,
-    JSON.stringify(imageDescriptions, null, 2),
-    "utf-8"
+  // Re-rendering from a checkpoint and dry runs never call the model, so don't demand a key
+  const needsLLM =
+    !args.dryRun &&
+    STAGES.indexOf(args.fromStage) <=
+      STAGES.indexOf(lastLLMStage(args)) &&
+    STAGES.indexOf(args.toStage) >= STAGES.indexOf("ocr");
+  // Cache outermost so hits skip the queue and the rate budget
+  const scheduled = withScheduler(
+    needsLLM
+      ? resolveProvider(args)
+      : args.dryRun
+        ? pricingOnlyProvider(args)
+        : createProvider({ provider: "fake", model: args.model }),
+    args.scheduler
   );
-  console.log(`[out] Image descriptions saved to ${imageDescPath}`);
-
-  const synthInputPath = path.join(
-    CONFIG.outputDir,
-    "synthesis-input-pages.json"
+  // The budget only sees calls that reach the API, never cache hits
+  const budget =
+    args.maxCost !== undefined ? withBudget(scheduled, args.maxCost) : undefined;
+  const provider = withCache(budget ?? scheduled, CONFIG.cacheDir, args.cacheMode);
+  console.log(
+    inputs.length === 1 && !args.batch
+      ? `\nInput:  ${inputs[0]}`
+      : `\nInput:  ${inputs.length} decks`
   );
-  fs.writeFileSync(
-    synthInputPath,
-    JSON.stringify(synthesisInputPages, null, 2),
-    "utf-8"
-  );
-  console.log(`[out] Synthesis input (per-page) saved to ${synthInputPath}`);
+  console.log(`Format: ${format}`);
+  if (needsLLM) {
+    console.log(`Model:  ${provider.name}/${provider.model}`);
+    console.log(`Cache:  ${args.cacheMode}`);
+    const { maxConcurrency, tokensPerMinute } = args.scheduler;
+    console.log(
+      `Limits: ${maxConcurrency} concurrent requests, ` +
+        (tokensPerMinute > 0 ? `${tokensPerMinute} tokens/min` : "no token limit")
+    );
+    if (budget) console.log(`Budget: $${budget.maxCost.toFixed(2)}`);
+  }
+  if (format === "pdf" || format === "html") {
+    const { theme, templateDir, page } = args.style;
+    console.log(
+      `Theme:  ${theme}${templateDir ? ` + template ${templateDir}` : ""}` +
+        (format === "pdf" ? `, ${page.size}` : "")
+    );
+  }
+  if (STAGES.indexOf(args.fromStage) <= STAGES.indexOf("merge")) {
+    const sections = args.profile.sections.map((s) => s.heading).join(", ") || "no closing sections";
+    console.log(`Profile: ${profileLabel(args.profile)} (${sections})`);
+  }
+  if (args.verify) console.log("Verify: statements checked against the slides");
+  if (args.quiz) console.log("Quiz:   self-test questions per topic");
+  if (args.cheatSheetPages !== undefined) {
+    console.log(`Sheet:  exam cheat sheet on ${args.cheatSheetPages} ${args.cheatSheetPages === 1 ? "page" : "pages"}`);
+  }
+  if (args.dryRun) console.log("Mode:   dry run (extract, then estimate cost)");
+  console.log(`Stages: ${args.fromStage} → ${args.toStage}\n`);
 
-  // Also save a readable markdown version of synthesis input
-  const synthInputMdPath = path.join(
-    CONFIG.outputDir,
-    "synthesis-input-pages.md"
-  );
-  fs.writeFileSync(
-    synthInputMdPath,
-    formatSynthesisInputMarkdown(synthesisInputPages),
-    "utf-8"
-  );
-  console.log(`[out] Synthesis input (readable) saved to ${synthInputMdPath}`);
+  if (args.batch) {
+    const reports = await runBatch(inputs, {
+      format,
+      provider,
+      outputRoot: CONFIG.outputDir,
+      concurrency: args.concurrency,
+      fromStage: args.fromStage,
+      toStage: args.toStage,
+      ocrThreshold: args.ocrThreshold,
+      vectorFigures: args.vectorFigures,
+      imageFilter: args.imageFilter,
+      verify: args.verify,
+      quiz: args.quiz,
+      cheatSheetPages: args.cheatSheetPages,
+      profile: args.profile,
+      style: args.style,
+      dryRun: args.dryRun,
+      budget,
+    });
 
-  // Always save the raw markdown
-  const mdPath = path.join(CONFIG.outputDir, "study-notes.md");
-  fs.writeFileSync(mdPath, studyNotes);
-  console.log(`[out] Markdown saved to ${mdPath}`);
+    const totalTime = ((performance.now() - t0) / 1000).toFixed(1);
+    console.log("");
+    printBatchSummary(reports);
+    const { hits, misses, savedCost } = provider.cacheStats;
+    console.log(`  Total time:   ${totalTime}s`);
+    console.log(
+      `  Cache:        ${hits} hits / ${misses} misses (saved $${savedCost.toFixed(4)})`
+    );
+    printSchedulerStats(scheduled.schedulerStats);
+    if (reports.some((r) => r.error)) process.exitCode = 1;
+    return;
+  }
 
-  // ── Step 4: Generate final output ──
-  const t3 = performance.now();
-  const ext = format === "html" ? "html" : "pdf";
-  const outFile = path.join(CONFIG.outputDir, `study-notes.${ext}`);
-  await generateOutput(studyNotes, outFile, format);
-  const step4Time = ((performance.now() - t3) / 1000).toFixed(1);
-  console.log(`  Step 4 took ${step4Time}s\n`);
+  const { pageCount, totalImages, cost, estimatedCost, outFile } = await runPipeline({
+    inputPath: inputs[0],
+    format,
+    provider,
+    outputDir: CONFIG.outputDir,
+    imagesDir: CONFIG.imagesDir,
+    fromStage: args.fromStage,
+    toStage: args.toStage,
+    ocrThreshold: args.ocrThreshold,
+    vectorFigures: args.vectorFigures,
+    imageFilter: args.imageFilter,
+    verify: args.verify,
+    quiz: args.quiz,
+    cheatSheetPages: args.cheatSheetPages,
+    profile: args.profile,
+    style: args.style,
+    dryRun: args.dryRun,
+    budget,
+  });
 
   // ── Summary ──
   const totalTime = ((performance.now() - t0) / 1000).toFixed(1);
   console.log("─".repeat(48));
   console.log(`  Total time:   ${totalTime}s`);
-  console.log(`  Pages:        ${pages.length}`);
+  console.log(`  Pages:        ${pageCount}`);
   console.log(`  Images:       ${totalImages}`);
-  console.log(`  API cost:     $${costEstimate.toFixed(4)}`);
-  console.log(`  Output:       ${outFile}`);
+  if (args.dryRun) {
+    console.log(`  Estimated:    $${(estimatedCost ?? 0).toFixed(4)} (nothing spent)`);
+  } else {
+    console.log(
+      `  API cost:     $${cost.toFixed(4)}` +
+        (estimatedCost !== undefined ? ` (estimated $${estimatedCost.toFixed(4)})` : "")
+    );
+  }
+  const { hits, misses, savedCost } = provider.cacheStats;
+  console.log(
+    `  Cache:        ${hits} hits / ${misses} misses (saved $${savedCost.toFixed(4)})`
+  );
+  printSchedulerStats(scheduled.schedulerStats);
+  console.log(
+    `  Output:       ${outFile ?? (args.dryRun ? "(dry run)" : `(stopped after ${args.toStage})`)}`
+  );
   console.log("─".repeat(48));
 }
 
-function formatSynthesisInputMarkdown(pages: SynthesisPageInput[]): string {
-  const parts: string[] = [];
-  for (const p of pages) {
-    parts.push(`## Page ${p.pageNumber}\n`);
-    if (p.text) parts.push(p.text.trim(), "\n");
-    for (const img of p.images) {
-      parts.push(`### ${img.filename}\n`, img.description, "\n");
+function printSchedulerStats({ retries, timeouts, failures }: SchedulerStats): void {
+  if (retries === 0 && failures === 0) return;
+  console.log(
+    `  Requests:     ${retries} retries (${timeouts} timeouts), ${failures} failed`
+  );
+}
+
+interface CliArgs {
+  inputPath?: string;
+  format: OutputFormat;
+  provider: ProviderName;
+  model: string;
+  baseURL?: string;
+  cacheMode: CacheMode;
+  clearCache: boolean;
+  fromStage: StageName;
+  toStage: StageName;
+  batch: boolean;
+  concurrency: number;
+  ocrThreshold: number;
+  vectorFigures: boolean;
+  imageFilter: ImageFilterOptions;
+  scheduler: SchedulerOptions;
+  /** Run the faithfulness check and highlight unsupported statements */
+  verify: boolean;
+  /** Also write a self-test quiz */
+  quiz: boolean;
+  /** Also write an exam cheat sheet fitted to this many pages */
+  cheatSheetPages?: number;
+  profile: PromptProfile;
+  style: DocumentStyle;
+  dryRun: boolean;
+  /** USD cap on API spend for the whole run */
+  maxCost?: number;
+}
+
+/** What the flags asked for, gathered before the config is loaded */
+interface ParseState {
+  args: Omit<
+    CliArgs,
+    | "provider"
+    | "model"
+    | "concurrency"
+    | "ocrThreshold"
+    | "imageFilter"
+    | "scheduler"
+    | "cheatSheetPages"
+    | "profile"
+  >;
+  /** Settings given as flags; they override the config file and environment */
+  settings: Partial<Record<ConfigKey, unknown>>;
+  configFile?: string;
+  cheatSheet: boolean;
+  printConfig: boolean;
+}
+
+interface CliOption {
+  flag: string;
+  /** Placeholder for the flag's value, if it takes one */
+  value?: string;
+  help: string;
+  apply(state: ParseState, value: string): void;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const OPTION_GROUPS: { title: string; options: CliOption[] }[] = [
+  {
+    title: "Output",
+    options: [
+      {
+        flag: "--format",
+        value: "<format>",
+        help: `${OUTPUT_FORMATS.join(", ")} (default: pdf)`,
+        apply(state, value) {
+          const val = value.toLowerCase();
+          if (!OUTPUT_FORMATS.includes(val as OutputFormat)) {
+            fail(`Invalid format "${val}". Use one of: ${OUTPUT_FORMATS.join(", ")}.`);
+          }
+          state.args.format = val as OutputFormat;
+        },
+      },
+      {
+        flag: "--output-dir",
+        value: "<dir>",
+        help: "Where notes, checkpoints and images are written",
+        apply: (state, value) => (state.settings.outputDir = value),
+      },
+      {
+        flag: "--all",
+        help: "Process every deck in the input directory",
+        apply: (state) => (state.args.batch = true),
+      },
+      {
+        flag: "--concurrency",
+        value: "<n>",
+        help: "Decks processed at once with --all",
+        apply: (state, value) => (state.settings.batchConcurrency = value),
+      },
+    ],
+  },
+  {
+    title: "Model",
+    options: [
+      {
+        flag: "--provider",
+        value: "<name>",
+        help: PROVIDER_NAMES.join(", "),
+        apply: (state, value) => (state.settings.provider = value),
+      },
+      {
+        flag: "--model",
+        value: "<name>",
+        help: "Model name, e.g. gpt-4o",
+        apply: (state, value) => (state.settings.model = value),
+      },
+      {
+        flag: "--base-url",
+        value: "<url>",
+        help: "Server for the openai-compatible provider (or LLM_BASE_URL)",
+        apply: (state, value) => (state.args.baseURL = value),
+      },
+      {
+        flag: "--vision-detail",
+        value: "<level>",
+        help: "Image detail for figure descriptions: low, high, auto",
+        apply: (state, value) => (state.settings.visionDetail = value),
+      },
+      {
+        flag: "--vision-batch-size",
+        value: "<n>",
+        help: "Images described per request",
+        apply: (state, value) => (state.settings.visionBatchSize = value),
+      },
+    ],
+  },
+  {
+    title: "Prompts",
+    options: [
+      {
+        flag: "--profile",
+        value: "<name|file>",
+        help: `Prompt profile: ${listProfiles().join(", ")} or a profile .json (default: general)`,
+        apply: (state, value) => (state.settings.profile = value),
+      },
+      {
+        flag: "--sections",
+        value: "<ids>",
+        help: `Closing sections to write, e.g. "review-questions,glossary" or "none"`,
+        apply: (state, value) => (state.settings.closingSections = value),
+      },
+    ],
+  },
+  {
+    title: "Pipeline",
+    options: [
+      {
+        flag: "--from-stage",
+        value: "<stage>",
+        help: `Resume from a stage's checkpoints: ${STAGES.join(", ")}`,
+        apply: (state, value) => (state.args.fromStage = stageArg(value)),
+      },
+      {
+        flag: "--to-stage",
+        value: "<stage>",
+        help: "Stop after this stage",
+        apply: (state, value) => (state.args.toStage = stageArg(value)),
+      },
+      {
+        flag: "--only-stage",
+        value: "<stage>",
+        help: "Run a single stage",
+        apply(state, value) {
+          state.args.fromStage = state.args.toStage = stageArg(value);
+        },
+      },
+      {
+        flag: "--dry-run",
+        help: "Extract the deck, then estimate the cost without calling the model",
+        apply: (state) => (state.args.dryRun = true),
+      },
+      {
+        flag: "--max-cost",
+        value: "<usd>",
+        help: "Stop before API spend exceeds this amount, e.g. 0.50",
+        apply(state, value) {
+          const val = Number(value.replace(/^\$/, ""));
+          if (!Number.isFinite(val) || val <= 0) {
+            fail(`Invalid budget "${value}". Use a dollar amount > 0, e.g. 0.50.`);
+          }
+          state.args.maxCost = val;
+        },
+      },
+      {
+        flag: "--ocr-threshold",
+        value: "<chars>",
+        help: "Transcribe pages with less text than this from an image",
+        apply: (state, value) => (state.settings.ocrMinTextChars = value),
+      },
+      {
+        flag: "--no-ocr",
+        help: "Never transcribe pages from an image",
+        apply: (state) => (state.settings.ocrMinTextChars = 0),
+      },
+    ],
+  },
+  {
+    title: "Images",
+    options: [
+      {
+        flag: "--image-max-width",
+        value: "<px>",
+        help: "Extracted images are scaled down to this width",
+        apply: (state, value) => (state.settings.imageMaxWidth = value),
+      },
+      {
+        flag: "--dedup-distance",
+        value: "<bits>",
+        help: "Images this close (perceptual hash, 0–64) count as duplicates",
+        apply: (state, value) => (state.settings.imageHashMaxDistance = value),
+      },
+      {
+        flag: "--max-recurrence",
+        value: "<percent>",
+        help: "Drop images on more than this share of pages (template decoration)",
+        apply(state, value) {
+          const val = Number(value);
+          if (!Number.isFinite(val) || val <= 0 || val > 100) {
+            fail(`Invalid recurrence "${value}". Use a percentage of pages (1–100).`);
+          }
+          state.settings.imageMaxPageShare = val / 100;
+        },
+      },
+      {
+        flag: "--no-vector-figures",
+        help: "Don't extract vector drawings as figures",
+        apply: (state) => (state.args.vectorFigures = false),
+      },
+    ],
+  },
+  {
+    title: "Extras",
+    options: [
+      {
+        flag: "--verify",
+        help: "Check every statement against the slides and highlight unsupported ones",
+        apply: (state) => (state.args.verify = true),
+      },
+      {
+        flag: "--quiz",
+        help: "Also write a self-test quiz per topic",
+        apply: (state) => (state.args.quiz = true),
+      },
+      {
+        flag: "--cheat-sheet",
+        help: "Also write an exam cheat sheet",
+        apply: (state) => (state.cheatSheet = true),
+      },
+      {
+        flag: "--cheat-sheet-pages",
+        value: "<n>",
+        help: "Pages the cheat sheet is fitted to (implies --cheat-sheet)",
+        apply(state, value) {
+          state.cheatSheet = true;
+          state.settings.cheatSheetPages = value;
+        },
+      },
+    ],
+  },
+  {
+    title: "Style (PDF and HTML)",
+    options: [
+      {
+        flag: "--theme",
+        value: "<theme>",
+        help: THEMES.join(", "),
+        apply(state, value) {
+          const val = value.toLowerCase();
+          if (!THEMES.includes(val as ThemeName)) {
+            fail(`Invalid theme "${val}". Use one of: ${THEMES.join(", ")}.`);
+          }
+          state.args.style.theme = val as ThemeName;
+        },
+      },
+      {
+        flag: "--template",
+        value: "<dir>",
+        help: "Directory with template.html, style.css, header.html, footer.html",
+        apply(state, value) {
+          const dir = path.resolve(value);
+          if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+            fail(`Template directory not found: ${dir}`);
+          }
+          state.args.style.templateDir = dir;
+        },
+      },
+      {
+        flag: "--course",
+        value: "<name>",
+        help: "Course name for the header",
+        apply: (state, value) => (state.args.style.course = value),
+      },
+      {
+        flag: "--logo",
+        value: "<file>",
+        help: "Logo image for the header",
+        apply(state, value) {
+          const file = path.resolve(value);
+          if (!fs.existsSync(file)) fail(`Logo not found: ${file}`);
+          state.args.style.logoPath = file;
+        },
+      },
+      {
+        flag: "--page-size",
+        value: "<size>",
+        help: PAGE_SIZES.join(", "),
+        apply(state, value) {
+          const val = PAGE_SIZES.find((s) => s.toLowerCase() === value.toLowerCase());
+          if (!val) fail(`Invalid page size "${value}". Use one of: ${PAGE_SIZES.join(", ")}.`);
+          state.args.style.page.size = val;
+        },
+      },
+      {
+        flag: "--margins",
+        value: "<css>",
+        help: `1–4 CSS lengths, e.g. "20mm" or "20mm 15mm"`,
+        apply(state, value) {
+          const margin = parseMargins(value);
+          if (!margin) {
+            fail(`Invalid margins "${value}". Use 1–4 CSS lengths, e.g. "20mm" or "20mm 15mm".`);
+          }
+          state.args.style.page.margin = margin;
+        },
+      },
+    ],
+  },
+  {
+    title: "Requests and cache",
+    options: [
+      {
+        flag: "--max-requests",
+        value: "<n>",
+        help: "Model requests in flight at once",
+        apply: (state, value) => (state.settings.llmConcurrency = value),
+      },
+      {
+        flag: "--tpm",
+        value: "<tokens>",
+        help: "Tokens per minute to stay under (0 = no limit)",
+        apply: (state, value) => (state.settings.llmTokensPerMinute = value),
+      },
+      {
+        flag: "--retries",
+        value: "<n>",
+        help: "Retries for a failed request",
+        apply: (state, value) => (state.settings.llmMaxRetries = value),
+      },
+      {
+        flag: "--timeout",
+        value: "<seconds>",
+        help: "Give up on a request after this long",
+        apply(state, value) {
+          const val = Number(value);
+          if (!Number.isFinite(val) || val <= 0) {
+            fail(`Invalid timeout "${value}". Use a number of seconds > 0.`);
+          }
+          state.settings.llmTimeoutMs = Math.round(val * 1000);
+        },
+      },
+      {
+        flag: "--no-cache",
+        help: "Neither read nor write cached responses",
+        apply: (state) => (state.args.cacheMode = "off"),
+      },
+      {
+        flag: "--cache-readonly",
+        help: "Use cached responses but don't add new ones",
+        apply: (state) => (state.args.cacheMode = "read-only"),
+      },
+      {
+        flag: "--clear-cache",
+        help: "Empty the response cache first",
+        apply: (state) => (state.args.clearCache = true),
+      },
+    ],
+  },
+  {
+    title: "Configuration",
+    options: [
+      {
+        flag: "--config",
+        value: "<file>",
+        help: `Settings file (default: ./${CONFIG_FILE} if present)`,
+        apply: (state, value) => (state.configFile = value),
+      },
+      {
+        flag: "--set",
+        value: "<key>=<value>",
+        help: "Override any setting, e.g. --set imageJpegQuality=90",
+        apply(state, value) {
+          const eq = value.indexOf("=");
+          if (eq < 1) fail(`Invalid --set "${value}". Use <key>=<value>, e.g. visionBatchSize=8.`);
+          state.settings[value.slice(0, eq).trim() as ConfigKey] = value.slice(eq + 1);
+        },
+      },
+      {
+        flag: "--print-config",
+        help: "Show the effective settings and where each came from, then exit",
+        apply: (state) => (state.printConfig = true),
+      },
+      {
+        flag: "--help",
+        help: "Show this help",
+        apply() {
+          printHelp();
+          process.exit(0);
+        },
+      },
+    ],
+  },
+];
+
+function stageArg(value: string): StageName {
+  const stage = parseStage(value);
+  if (!stage) fail(`Invalid stage "${value}". Use one of: ${STAGES.join(", ")}.`);
+  return stage;
+}
+
+function printHelp(): void {
+  const width = Math.max(
+    ...OPTION_GROUPS.flatMap((g) => g.options.map((o) => `${o.flag} ${o.value ?? ""}`.length))
+  );
+  console.log(`Usage: npx tsx src/index.ts [deck.pdf | deck.pptx | directory] [options]
+
+Turns a lecture deck into study notes. Without an input, the first deck in
+./input is used; a directory (or --all) processes every deck in it.`);
+  for (const group of OPTION_GROUPS) {
+    console.log(`\n${group.title}:`);
+    for (const o of group.options) {
+      console.log(`  ${`${o.flag} ${o.value ?? ""}`.padEnd(width)}  ${o.help}`);
     }
-    parts.push("\n");
   }
-  return parts.join("");
+  console.log(`
+Settings are layered: built-in defaults, then ${CONFIG_FILE} (or --config),
+then ${ENV_PREFIX}* environment variables (e.g. ${envName("visionBatchSize")}=8),
+then flags. --print-config lists every setting.`);
 }
 
-function parseArgs(): { inputPath?: string; format: OutputFormat } {
-  const args = process.argv.slice(2);
-  let inputPath: string | undefined;
-  let format: OutputFormat = "pdf";
+function parseArgs(): CliArgs {
+  const argv = process.argv.slice(2);
+  const options = new Map(OPTION_GROUPS.flatMap((g) => g.options.map((o) => [o.flag, o])));
+  options.set("-h", options.get("--help")!);
+  const state: ParseState = {
+    args: {
+      format: "pdf",
+      baseURL: process.env.LLM_BASE_URL,
+      cacheMode: "read-write",
+      clearCache: false,
+      fromStage: STAGES[0],
+      toStage: STAGES[STAGES.length - 1],
+      batch: false,
+      vectorFigures: true,
+      verify: false,
+      quiz: false,
+      style: {
+        ...DEFAULT_STYLE,
+        page: { ...DEFAULT_STYLE.page, margin: { ...DEFAULT_STYLE.page.margin } },
+      },
+      dryRun: false,
+    },
+    settings: {},
+    cheatSheet: false,
+    printConfig: false,
+  };
 
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--format" && args[i + 1]) {
-      const val = args[i + 1].toLowerCase();
-      if (val !== "pdf" && val !== "html") {
-        console.error(`Invalid format "${val}". Use "pdf" or "html".`);
-        process.exit(1);
-      }
-      format = val;
-      i++;
-    } else if (!args[i].startsWith("--")) {
-      inputPath = args[i];
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("-")) {
+      state.args.inputPath = argv[i];
+      continue;
     }
+    const option = options.get(argv[i]);
+    if (!option) fail(`Unknown option "${argv[i]}". See --help.`);
+    if (option.value && argv[i + 1] === undefined) fail(`${option.flag} needs a value: ${option.value}`);
+    option.apply(state, option.value ? argv[++i] : "");
+  }
+
+  const sources = loadConfig({ file: state.configFile, cli: state.settings });
+  if (state.printConfig) {
+    console.log(formatConfig(sources));
+    process.exit(0);
+  }
+
+  const { fromStage, toStage } = state.args;
+  if (STAGES.indexOf(fromStage) > STAGES.indexOf(toStage)) {
+    fail(`--from-stage ${fromStage} comes after --to-stage ${toStage}.`);
   }
 
-  return { inputPath, format };
+  return {
+    ...state.args,
+    provider: CONFIG.provider,
+    model: CONFIG.model,
+    concurrency: CONFIG.batchConcurrency,
+    ocrThreshold: CONFIG.ocrMinTextChars,
+    imageFilter: {
+      maxHashDistance: CONFIG.imageHashMaxDistance,
+      maxPageShare: CONFIG.imageMaxPageShare,
+      minStdDev: CONFIG.imageMinStdDev,
+      maxAspectRatio: CONFIG.imageMaxAspectRatio,
+    },
+    scheduler: {
+      maxConcurrency: CONFIG.llmConcurrency,
+      tokensPerMinute: CONFIG.llmTokensPerMinute,
+      maxRetries: CONFIG.llmMaxRetries,
+      timeoutMs: CONFIG.llmTimeoutMs,
+      baseBackoffMs: CONFIG.llmBackoffMs,
+      maxBackoffMs: CONFIG.llmMaxBackoffMs,
+    },
+    cheatSheetPages: state.cheatSheet ? CONFIG.cheatSheetPages : undefined,
+    profile: loadProfile(CONFIG.profile, CONFIG.closingSections),
+  };
+}
+
+/** The last stage that calls the model, given the optional stages asked for */
+function lastLLMStage(args: CliArgs): StageName {
+  if (args.cheatSheetPages !== undefined) return "cheatsheet";
+  if (args.quiz) return "quiz";
+  return args.verify ? "verify" : "merge";
 }
 
-function resolveInput(arg?: string): string {
-  if (arg) {
-    const abs = path.resolve(arg);
+/** The chosen provider's name, model and prices for the estimate, with no client behind it */
+function pricingOnlyProvider(args: CliArgs): LLMProvider {
+  return {
+    name: args.provider,
+    model: args.model,
+    pricing: pricingFor(args.provider, args.model),
+    async chat() {
+      throw new Error("A dry run does not call the model");
+    },
+  };
+}
+
+function resolveProvider(args: CliArgs): LLMProvider {
+  let apiKey: string | undefined;
+  if (args.provider === "openai") {
+    apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey || apiKey === "your-api-key-here") {
+      console.error("Error: Set OPENAI_API_KEY in .env");
+      process.exit(1);
+    }
+  } else if (args.provider === "openai-compatible") {
+    apiKey = process.env.LLM_API_KEY;
+    if (!args.baseURL) {
+      console.error(
+        "Error: The openai-compatible provider needs --base-url or LLM_BASE_URL " +
+          "(e.g. http://localhost:11434/v1)"
+      );
+      process.exit(1);
+    }
+  }
+
+  return createProvider({
+    provider: args.provider,
+    model: args.model,
+    apiKey,
+    baseURL: args.baseURL,
+  });
+}
+
+/**
+ * Decide which decks to process. A directory argument or `--all` turns on
+ * batch mode over every PDF/PPTX in it; otherwise a single deck is picked.
+ */
+function resolveInputs(args: CliArgs): string[] {
+  let dir = CONFIG.inputDir;
+  if (args.inputPath) {
+    const abs = path.resolve(args.inputPath);
     if (!fs.existsSync(abs)) {
       console.error(`File not found: ${abs}`);
       process.exit(1);
     }
-    return abs;
+    if (!fs.statSync(abs).isDirectory()) {
+      if (args.batch) {
+        console.error(`--all expects a directory, got a file: ${abs}`);
+        process.exit(1);
+      }
+      return [abs];
+    }
+    dir = abs;
+    args.batch = true;
   }
 
   const files = fs
-    .readdirSync(CONFIG.inputDir)
-    .filter((f) => f.toLowerCase().endsWith(".pdf"));
+    .readdirSync(dir)
+    .filter((f) =>
+      INPUT_EXTENSIONS.some((ext) => f.toLowerCase().endsWith(ext))
+    )
+    .sort();
 
   if (files.length === 0) {
     console.error(
-      `No PDF found. Either:\n` +
-        `  - Place a PDF in ./input/\n` +
+      `No PDF or PPTX found. Either:\n` +
+        `  - Place a deck in ./input/\n` +
         `  - Or pass a path: npx tsx src/index.ts path/to/file.pdf`
     );
     process.exit(1);
   }
 
+  if (args.batch) {
+    return files.map((f) => path.join(dir, f));
+  }
+
   if (files.length > 1) {
-    console.log(`Multiple PDFs found, using first: ${files[0]}`);
+    console.log(
+      `Multiple decks found, using first: ${files[0]} (pass --all to process every deck)`
+    );
   }
 
-  return path.join(CONFIG.inputDir, files[0]);
+  return [path.join(dir, files[0])];
 }
 
 main().catch((err) => {
-  console.error("\nFatal error:", err);
+  if (
+    err instanceof ConfigError ||
+    err instanceof ProfileError ||
+    err instanceof MissingCheckpointError ||
+    err instanceof BudgetExceededError ||
+    err instanceof TopicExtractionError
+  ) {
+    console.error(`\nError: ${err.message}`);
+  } else {
+    console.error("\nFatal error:", err);
+  }
   process.exit(1);
 });
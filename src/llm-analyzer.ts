@@ -1,14 +1,17 @@
-import OpenAI from "openai";
-import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { CONFIG } from "./config.js";
 import type { PageData, ExtractedImage } from "./pdf-processor.js";
-
-const VISION_TOKENS_PER_LOW_IMAGE = 2833;
-
-const COST = {
-  "gpt-4o-mini": { input: 0.15 / 1_000_000, output: 0.60 / 1_000_000 },
-  "gpt-4o":      { input: 2.50 / 1_000_000, output: 5.0 / 1_000_000 },
-} as const;
+import {
+  approxTokens,
+  type ChatContentPart,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+} from "./llm-provider.js";
+import { describeError } from "./llm-scheduler.js";
+import { citationMarker } from "./citations.js";
+import { mermaidSyntaxError } from "./mermaid.js";
+import { stampNotes, type PromptProfile } from "./prompt-profiles.js";
 
 export interface ImageDescription {
   imageId: string;
@@ -20,6 +23,9 @@ export interface ImageDescription {
 export interface SynthesisPageInput {
   pageNumber: number;
   text: string;
+  /** "ocr" when the text was transcribed from a page render */
+  textSource?: "ocr";
+  notes?: string;
   images: { filename: string; imageId: string; description: string }[];
 }
 
@@ -30,26 +36,117 @@ export interface TopicWithPages {
 }
 
 /** Step 1 result: topics and mermaid flowchart */
-interface TopicsAndFlowchart {
+export interface TopicsAndFlowchart {
   topics: TopicWithPages[];
   mermaidFlowchart: string;
 }
 
-export interface AnalysisResult {
-  imageDescriptions: ImageDescription[];
-  synthesisInputPages: SynthesisPageInput[];
-  studyNotes: string;
-  costEstimate: number;
+/** Answer limits of the topics, summary and merge calls (the cost estimator plans with them too) */
+export const ANSWER_TOKENS = {
+  topics: 4000,
+  summary: 4000,
+  merge: 10000,
+  mergeFrame: 4000,
+} as const;
+
+/** OCR transcription of one text-poor page */
+export interface PageTranscription {
+  pageNumber: number;
+  renderFile: string;
+  extractedText: string;
+  text: string;
 }
 
-export async function analyzeAndSynthesize(
+/** Step 1b: Transcribe text-poor pages from their full-page render */
+export async function transcribePages(
+  provider: LLMProvider,
+  pages: PageData[]
+): Promise<{ transcriptions: PageTranscription[]; cost: number }> {
+  const targets = pages.filter((p) => p.pageRender);
+  if (targets.length === 0) {
+    console.log("[llm] No text-poor pages, skipping OCR.");
+    return { transcriptions: [], cost: 0 };
+  }
+
+  console.log(`[llm] Transcribing ${targets.length} text-poor pages (${provider.name}/${provider.model})...`);
+
+  const results = await Promise.all(
+    targets.map(async (page) => {
+      const render = page.pageRender!;
+      try {
+        const { text, cost, cached } = await chatToCompletion(provider, {
+          task: "ocr",
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: buildOcrPrompt(page) },
+                {
+                  type: "image",
+                  data: render.buffer,
+                  mimeType: "image/jpeg",
+                  detail: CONFIG.ocrDetail,
+                },
+              ],
+            },
+          ],
+          maxTokens: 2000,
+          temperature: 0,
+        });
+        console.log(
+          `  Page ${page.pageNumber}: ${text.length} chars ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
+        );
+        const transcription: PageTranscription = {
+          pageNumber: page.pageNumber,
+          renderFile: render.filename,
+          extractedText: page.text,
+          text: text.trim(),
+        };
+        return { transcription, cost };
+      } catch (err) {
+        // A page that cannot be transcribed keeps its extracted text
+        console.warn(`  Page ${page.pageNumber}: OCR failed (${describeError(err)}), keeping extracted text`);
+        return undefined;
+      }
+    })
+  );
+  const done = results.filter((r) => r !== undefined);
+
+  return {
+    transcriptions: done.map((r) => r.transcription),
+    cost: done.reduce((sum, r) => sum + r.cost, 0),
+  };
+}
+
+/** Replace the text of transcribed pages, marking it as OCR-derived */
+export function applyTranscriptions(
   pages: PageData[],
-  apiKey: string
-): Promise<AnalysisResult> {
-  const client = new OpenAI({ apiKey });
-  let totalCost = 0;
+  transcriptions: PageTranscription[]
+): PageData[] {
+  const byPage = new Map(transcriptions.map((t) => [t.pageNumber, t]));
+  return pages.map((p) => {
+    const t = byPage.get(p.pageNumber);
+    return t && t.text ? { ...p, text: t.text, textSource: "ocr" } : p;
+  });
+}
 
-  // ── Step 1: Describe images via vision ──
+function buildOcrPrompt(page: PageData): string {
+  const partial = page.text
+    ? `\nThe little text that could be extracted from this page: "${page.text}"\n`
+    : "";
+  return `This is page ${page.pageNumber} of a university lecture deck, rendered as an image because it has (almost) no extractable text — it is probably a scan or a screenshot.
+${partial}
+Transcribe ALL text on the page in reading order (title first), keeping bullet structure as plain lines. Then, if the page contains diagrams, charts or photos, add one line per figure starting with "Figure:" that says what it shows.
+
+Output only the transcription, no commentary.`;
+}
+
+/** Step 2: Describe every extracted image via vision, in batches */
+export async function describeImages(
+  provider: LLMProvider,
+  pages: PageData[],
+  profile: PromptProfile
+): Promise<{ imageDescriptions: ImageDescription[]; cost: number }> {
   const allImages = pages.flatMap((p) =>
     p.images.map((img) => ({
       ...img,
@@ -57,72 +154,81 @@ export async function analyzeAndSynthesize(
     }))
   );
 
-  let imageDescriptions: ImageDescription[] = [];
-  const tStep2 = performance.now();
+  const imageDescriptions: ImageDescription[] = [];
+  let cost = 0;
 
-  if (allImages.length > 0) {
-    console.log(`[llm] Analyzing ${allImages.length} images (${CONFIG.model})...`);
+  if (allImages.length === 0) {
+    console.log("[llm] No images found, skipping vision analysis.");
+    return { imageDescriptions, cost };
+  }
 
-    const batches = chunk(allImages, CONFIG.visionBatchSize);
-    const totalBatches = batches.length;
+  console.log(`[llm] Analyzing ${allImages.length} images (${provider.name}/${provider.model})...`);
 
-    const batchPromises = batches.map((batch, idx) =>
-      describeImageBatch(client, batch, idx, totalBatches)
-    );
+  const batches = chunk(allImages, CONFIG.visionBatchSize);
+  const totalBatches = batches.length;
 
-    const batchResults = await Promise.all(batchPromises);
-    for (const result of batchResults) {
-      imageDescriptions.push(...result.descriptions);
-      totalCost += result.cost;
-    }
-  } else {
-    console.log("[llm] No images found, skipping vision analysis.");
+  // The scheduler paces these; a batch that still fails is degraded, not fatal
+  const batchPromises = batches.map((batch, idx) =>
+    describeImageBatch(provider, batch, idx, totalBatches, profile).catch((err): BatchResult => {
+      console.warn(
+        `  Batch ${idx + 1}/${totalBatches} failed (${describeError(err)}); ` +
+          `${batch.length} images left as "(no description)"`
+      );
+      return { descriptions: [], cost: 0 };
+    })
+  );
+
+  const batchResults = await Promise.all(batchPromises);
+  for (const result of batchResults) {
+    imageDescriptions.push(...result.descriptions);
+    cost += result.cost;
   }
 
-  const step2Time = ((performance.now() - tStep2) / 1000).toFixed(1);
-  const step2Cost = totalCost;
-  console.log(`  Step 2 took ${step2Time}s (API cost: $${step2Cost.toFixed(4)})\n`);
+  const missing = allImages.length - imageDescriptions.length;
+  if (missing > 0) {
+    console.warn(`[llm] ${missing} of ${allImages.length} images have no description`);
+  }
 
-  // ── Step 3: Three-step synthesis ──
-  const tStep3 = performance.now();
-  const descMap = new Map(imageDescriptions.map((d) => [d.imageId, d]));
+  return { imageDescriptions, cost };
+}
 
-  // Step 3a: Text-only → topics + mermaid flowchart
-  console.log("[llm] Step 3a: Extracting topics and flowchart (text only)...");
-  const { topics, mermaidFlowchart, cost: cost3a } =
-    await extractTopicsAndFlowchart(client, pages);
-  totalCost += cost3a;
-  console.log(`  Topics: ${topics.map((t) => t.name).join(", ")}`);
-
-  // Step 3b: Per-topic summarization (text + images for topic pages) — parallel
-  console.log("[llm] Step 3b: Summarizing each topic (parallel)...");
-  const step3bResults = await Promise.all(
-    topics.map((topic) => summarizeTopic(client, topic, pages, descMap))
-  );
-  const topicSummaries = step3bResults.map((r) => r.summary);
-  for (const r of step3bResults) totalCost += r.cost;
-
-  // Step 3c: Merge into final study notes using flowchart order
-  console.log("[llm] Step 3c: Merging study notes...");
-  const { notes, cost: mergeCost } = await mergeStudyNotes(
-    client,
-    topics,
-    topicSummaries,
-    mermaidFlowchart,
-    pages
+/** Step 3b: Per-topic summarization (text + images for topic pages) — parallel */
+export async function summarizeTopics(
+  provider: LLMProvider,
+  topics: TopicWithPages[],
+  pages: PageData[],
+  imageDescriptions: ImageDescription[],
+  profile: PromptProfile
+): Promise<{ topicSummaries: string[]; cost: number }> {
+  const descMap = new Map(imageDescriptions.map((d) => [d.imageId, d]));
+  // A topic that still fails after the scheduler's retries keeps its heading, so the notes can be merged
+  const results = await Promise.all(
+    topics.map((topic) =>
+      summarizeTopic(provider, topic, pages, descMap, profile).catch((err) => {
+        console.warn(`  Topic "${topic.name}" failed (${describeError(err)}); left as "(summary unavailable)"`);
+        const summary = addSectionCitation(`## ${topic.name}\n\n_(summary unavailable)_`, topic.pageNumbers);
+        return { summary, cost: 0 };
+      })
+    )
   );
-  totalCost += mergeCost;
-
-  const step3Time = ((performance.now() - tStep3) / 1000).toFixed(1);
-  console.log(`  Step 3 took ${step3Time}s (API cost: $${(totalCost - step2Cost).toFixed(4)})\n`);
-  console.log(`[llm] Total estimated API cost: $${totalCost.toFixed(4)}`);
+  const topicSummaries = results.map((r) => r.summary);
+  const cost = results.reduce((sum, r) => sum + r.cost, 0);
+  return { topicSummaries, cost };
+}
 
-  // Build per-page synthesis input (text + image descriptions)
-  const synthesisInputPages: SynthesisPageInput[] = pages
-    .filter((p) => p.text.length > 0 || p.images.length > 0)
+/** Build per-page synthesis input (text + image descriptions) */
+export function buildSynthesisInputPages(
+  pages: PageData[],
+  imageDescriptions: ImageDescription[]
+): SynthesisPageInput[] {
+  const descMap = new Map(imageDescriptions.map((d) => [d.imageId, d]));
+  return pages
+    .filter(hasContent)
     .map((p) => ({
       pageNumber: p.pageNumber,
       text: p.text,
+      ...(p.textSource ? { textSource: p.textSource } : {}),
+      ...(p.notes ? { notes: p.notes } : {}),
       images: p.images.map((img) => {
         const d = descMap.get(img.id);
         return {
@@ -132,13 +238,6 @@ export async function analyzeAndSynthesize(
         };
       }),
     }));
-
-  return {
-    imageDescriptions,
-    synthesisInputPages,
-    studyNotes: notes,
-    costEstimate: totalCost,
-  };
 }
 
 // ── Vision batch processing ──
@@ -153,77 +252,83 @@ interface BatchResult {
 }
 
 async function describeImageBatch(
-  client: OpenAI,
+  provider: LLMProvider,
   batch: ImageWithContext[],
   batchIdx: number,
-  totalBatches: number
+  totalBatches: number,
+  profile: PromptProfile
 ): Promise<BatchResult> {
-  const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
+  const content: ChatContentPart[] = [];
 
   content.push({
     type: "text",
-    text: buildVisionPrompt(batch),
+    text: buildVisionPrompt(batch, profile),
   });
 
   for (const img of batch) {
-    const base64 = img.buffer.toString("base64");
     content.push({
-      type: "image_url",
-      image_url: {
-        url: `data:image/jpeg;base64,${base64}`,
-        detail: CONFIG.visionDetail,
-      },
+      type: "image",
+      data: img.buffer,
+      mimeType: "image/jpeg",
+      detail: CONFIG.visionDetail,
     });
   }
 
-  const messages: ChatCompletionMessageParam[] = [
+  const messages: ChatMessage[] = [
     {
       role: "user",
       content,
     },
   ];
 
-  const resp = await client.chat.completions.create({
-    model: CONFIG.model,
+  const {
+    text,
+    inputTokens,
+    outputTokens,
+    finishReason,
+    cost,
+    cached,
+  } = await provider.chat({
+    task: "vision",
     messages,
-    max_tokens: 3000,
+    maxTokens: 3000,
     temperature: 0.2,
   });
 
-  const text = resp.choices[0]?.message?.content ?? "";
-  const inputTokens = resp.usage?.prompt_tokens ?? 0;
-  const outputTokens = resp.usage?.completion_tokens ?? 0;
-  const rates = COST[CONFIG.model];
-  const cost = inputTokens * rates.input + outputTokens * rates.output;
-
   console.log(
-    `  Batch ${batchIdx + 1}/${totalBatches}: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})`
+    `  Batch ${batchIdx + 1}/${totalBatches}: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
   );
 
   const descriptions = parseImageDescriptions(text, batch);
+  if (finishReason === "length" && descriptions.length > 0) {
+    // The last description stops mid-sentence; better none than half of one
+    const cut = descriptions.pop()!;
+    console.warn(
+      `  Batch ${batchIdx + 1}/${totalBatches} was truncated; ${batch.length - descriptions.length} images ` +
+        `from ${cut.imageId} on are left without a description`
+    );
+  }
   return { descriptions, cost };
 }
 
-function buildVisionPrompt(batch: ImageWithContext[]): string {
+function buildVisionPrompt(batch: ImageWithContext[], profile: PromptProfile): string {
   const imageList = batch
     .map((img, i) => {
       const ctx = img.pageText
         ? `\n   Slide text: "${img.pageText}"`
         : "";
-      return `${i + 1}. Image ID: ${img.id} (page ${img.pageNumber})${ctx}`;
+      const kind = img.kind === "vector"
+        ? "\n   (A diagram drawn with shapes on the slide, cropped from a render of the page.)"
+        : "";
+      return `${i + 1}. Image ID: ${img.id} (page ${img.pageNumber})${kind}${ctx}`;
     })
     .join("\n\n");
 
-  return `You are analyzing images extracted from university lecture slides. These are scientific images or diagrams essential for study.
+  const { vision, visionParts } = profile.prompts;
+  return `${vision}
 
-For each image, reason step by step before writing the final description:
-1. Identify all visible text, labels, and symbols in the image.
-2. Explain what each element represents in the context of the slide text provided.
-3. Summarise the diagram in one sentence.
-
-Then output a structured description with these four parts:
-- **Main concept**: What the diagram illustrates and why it matters.
-- **Key labels**: Important text, terms, or symbols visible in the image.
+Then output a structured description with ${visionParts.length === 1 ? "this part" : `these ${visionParts.length} parts`}:
+${visionParts.map((part) => `- ${part}`).join("\n")}
 
 Images to analyze:
 ${imageList}
@@ -278,99 +383,424 @@ function parseImageDescriptions(
 
 // ── Study note synthesis (3 steps) ──
 
+function hasContent(p: PageData): boolean {
+  return p.text.length > 0 || p.images.length > 0 || !!p.notes;
+}
+
 function buildTextContentForPages(pages: PageData[]): string {
   return pages
-    .filter((p) => p.text.length > 0 || p.images.length > 0)
+    .filter(hasContent)
     .map((p) => {
       let entry = `[p${p.pageNumber}]`;
+      if (p.textSource === "ocr") entry += " (OCR)";
       if (p.text) entry += ` ${p.text}`;
+      if (p.notes) entry += `\n  (speaker notes) ${p.notes}`;
       for (const img of p.images) entry += ` {{${img.filename}}}`;
       return entry;
     })
     .join("\n");
 }
 
-/** Step 1: Text only → topics with page numbers + mermaid flowchart */
-async function extractTopicsAndFlowchart(
-  client: OpenAI,
-  pages: PageData[]
+/**
+ * Step 1: Text only → topics with page numbers + mermaid flowchart. Decks
+ * too long for one prompt are read in overlapping windows of pages whose
+ * topic lists are then reconciled into one.
+ */
+export async function extractTopicsAndFlowchart(
+  provider: LLMProvider,
+  pages: PageData[],
+  profile: PromptProfile
 ): Promise<TopicsAndFlowchart & { cost: number }> {
-  const textContent = buildTextContentForPages(pages);
+  const pageNumbers = new Set(pages.map((p) => p.pageNumber));
+  const contentPages = pages.filter(hasContent);
+  const windows = pageWindows(
+    contentPages,
+    CONFIG.topicsWindowTokens,
+    CONFIG.topicsWindowOverlap
+  );
 
-  const messages: ChatCompletionMessageParam[] = [
+  let result: TopicsAndFlowchart;
+  let cost = 0;
+  if (windows.length <= 1) {
+    ({ value: result, cost } = await requestTopics(
+      provider,
+      buildTopicsMessages(profile, pages.length, buildTextContentForPages(pages)),
+      pageNumbers
+    ));
+  } else {
+    console.log(
+      `[llm] Deck too long for one prompt; extracting topics over ${windows.length} overlapping windows...`
+    );
+    const parts = await Promise.all(
+      windows.map((w, i) => {
+        const range = `pages ${w[0].pageNumber}–${w[w.length - 1].pageNumber}`;
+        return requestTopics(
+          provider,
+          buildTopicsMessages(
+            profile,
+            pages.length,
+            buildTextContentForPages(w),
+            `part ${i + 1} of ${windows.length} (${range})`
+          ),
+          new Set(w.map((p) => p.pageNumber))
+        );
+      })
+    );
+    cost = parts.reduce((sum, part) => sum + part.cost, 0);
+
+    console.log(`[llm] Reconciling ${parts.reduce((n, part) => n + part.value.topics.length, 0)} window topics...`);
+    const reconciled = await requestTopics(
+      provider,
+      buildReconcileMessages(
+        profile,
+        pages.length,
+        windows,
+        parts.map((part) => part.value.topics)
+      ),
+      pageNumbers
+    );
+    result = reconciled.value;
+    cost += reconciled.cost;
+  }
+
+  const topics = attachOrphanPages(result.topics, contentPages);
+  const flowchart = await repairFlowchart(provider, result.mermaidFlowchart);
+  cost += flowchart.cost;
+  return { topics, mermaidFlowchart: flowchart.code, cost };
+}
+
+/**
+ * Check the concept map with Mermaid's parser and send parse errors back to
+ * the model, up to `CONFIG.mermaidMaxRepairs` times. A diagram that still
+ * fails is kept (and shown as source when rendering) with a warning.
+ */
+async function repairFlowchart(
+  provider: LLMProvider,
+  code: string
+): Promise<{ code: string; cost: number }> {
+  let cost = 0;
+  for (let attempt = 0; ; attempt++) {
+    const error = await mermaidSyntaxError(code);
+    if (!error) return { code, cost };
+    if (attempt >= CONFIG.mermaidMaxRepairs) {
+      console.warn(
+        `[mermaid] Warning: the concept map is still invalid after ${attempt} repair(s) ` +
+          `and will be shown as source: ${error.split("\n")[0]}`
+      );
+      return { code, cost };
+    }
+
+    console.warn("[mermaid] Concept map does not parse; asking the model to repair it");
+    const response = await provider.chat({
+      task: "flowchart-repair",
+      messages: [
+        {
+          role: "system",
+          content: `You fix Mermaid diagram syntax. Output only Mermaid code.`,
+        },
+        {
+          role: "user",
+          content: `This Mermaid flowchart fails to parse:
+
+\`\`\`mermaid
+${code}
+\`\`\`
+
+Parser error:
+${error}
+
+Fix the syntax without changing the nodes or arrows. Put labels containing parentheses, quotes or other punctuation in double quotes, e.g. A["Cell (biology)"]. Respond with ONLY the corrected Mermaid code, no fences or explanation.`,
+        },
+      ],
+      maxTokens: 2000,
+      temperature: 0,
+    });
+    cost += response.cost;
+    if (response.finishReason === "length") {
+      console.warn("[mermaid] Warning: the repaired concept map was cut off; keeping the original, shown as source");
+      return { code, cost };
+    }
+    code = response.text
+      .replace(/^\s*```(?:mermaid)?\s*/i, "")
+      .replace(/\s*```\s*$/, "")
+      .trim();
+  }
+}
+
+/**
+ * Ask for topics JSON and validate it; on failure show the model its answer
+ * and the problems, up to `CONFIG.topicsMaxRepairs` times. An answer cut off
+ * at the token limit is continued, not repaired.
+ */
+async function requestTopics(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  pageNumbers: Set<number>
+): Promise<{ value: TopicsAndFlowchart; cost: number }> {
+  let cost = 0;
+  for (let attempt = 0; ; attempt++) {
+    const response = await chatToCompletion(provider, {
+      task: "topics",
+      messages,
+      maxTokens: ANSWER_TOKENS.topics,
+      temperature: 0,
+    });
+    cost += response.cost;
+    if (response.finishReason === "length") {
+      throw new TopicExtractionError(
+        [`The response was still cut off after ${CONFIG.maxContinuations} continuation(s)`],
+        attempt + 1
+      );
+    }
+
+    const { value, errors } = parseTopicsAndFlowchart(response.text, pageNumbers);
+    if (value) return { value, cost };
+
+    if (attempt >= CONFIG.topicsMaxRepairs) {
+      throw new TopicExtractionError(errors, attempt + 1);
+    }
+    console.warn(
+      `[llm] Topics response invalid (${errors.length} problem(s)); asking the model to repair it`
+    );
+    // Show the model its own answer and what was wrong with it
+    messages = [
+      ...messages,
+      { role: "assistant", content: response.text },
+      {
+        role: "user",
+        content: `That response is invalid:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Valid page numbers are ${describePageRange(pageNumbers)}. Respond again with ONLY the corrected JSON object.`,
+      },
+    ];
+  }
+}
+
+const TOPICS_JSON_FORMAT = `Respond with ONLY a single JSON object, no markdown or extra text:
+{
+  "topics": [
+    { "name": "Topic title", "pageNumbers": [1, 2, 3] }
+  ],
+  "mermaidFlowchart": "flowchart LR\\n  A --> B\\n  B --> C"
+}`;
+
+function buildTopicsMessages(
+  profile: PromptProfile,
+  deckLength: number,
+  textContent: string,
+  part?: string
+): ChatMessage[] {
+  const scope = part
+    ? `This is ${part} of a ${deckLength}-slide lecture (text only below); the other parts are analyzed separately.`
+    : `Analyze this ${deckLength}-slide lecture (text only below).`;
+  return [
     {
       role: "system",
-      content: `You are an expert at analyzing lecture structure. Given slide text only, identify the main topics and how they connect. Output valid JSON only.`,
+      content: `${profile.prompts.topicsSystem} You are given slide text only. Output valid JSON only.`,
     },
     {
       role: "user",
-      content: `Analyze this ${pages.length}-slide lecture (text only below).
+      content: `${scope}
 
-1. Split the content into main TOPICS. For each topic, list the exact PAGE NUMBERS (from the [pN] markers) that belong to that topic. A page may appear in more than one topic if it spans concepts.
+1. Split the content into main TOPICS. For each topic, list the exact PAGE NUMBERS (from the [pN] markers) that belong to that topic. Every page listed below must belong to at least one topic. A page may appear in more than one topic if it spans concepts.
 2. Create a Mermaid flowchart that shows how these topics connect (e.g. prerequisite order, logical flow). Use standard Mermaid syntax (flowchart LR or TD, nodes, arrows). The flowchart should help students see the lecture structure at a glance.
 
-Respond with ONLY a single JSON object, no markdown or extra text:
-{
-  "topics": [
-    { "name": "Topic title", "pageNumbers": [1, 2, 3] }
-  ],
-  "mermaidFlowchart": "flowchart LR\\n  A --> B\\n  B --> C"
-}
+${TOPICS_JSON_FORMAT}
 
 --- SLIDE TEXT ---
 ${textContent}`,
     },
   ];
+}
 
-  const resp = await client.chat.completions.create({
-    model: CONFIG.model,
-    messages,
-    max_tokens: 4000,
-    temperature: 0,
-  });
+function buildReconcileMessages(
+  profile: PromptProfile,
+  deckLength: number,
+  windows: PageData[][],
+  windowTopics: TopicWithPages[][]
+): ChatMessage[] {
+  const listing = windows
+    .map((w, i) => {
+      const lines = windowTopics[i].map(
+        (t) => `- ${t.name}: pages ${t.pageNumbers.join(", ")}`
+      );
+      return `Window ${i + 1} (pages ${w[0].pageNumber}–${w[w.length - 1].pageNumber}):\n${lines.join("\n")}`;
+    })
+    .join("\n\n");
 
-  const text = resp.choices[0]?.message?.content ?? "";
-  const inputTokens = resp.usage?.prompt_tokens ?? 0;
-  const outputTokens = resp.usage?.completion_tokens ?? 0;
-  const rates = COST[CONFIG.model];
-  const cost = inputTokens * rates.input + outputTokens * rates.output;
+  return [
+    {
+      role: "system",
+      content: `${profile.prompts.topicsSystem} Output valid JSON only.`,
+    },
+    {
+      role: "user",
+      content: `The topics of a ${deckLength}-slide lecture were extracted from overlapping windows of pages, so the same topic can appear in two windows, possibly under different names.
+
+1. Merge them into ONE list of main topics in lecture order: combine topics that are the same or that continue across a window boundary, and give each a clear name. Keep every page number; a page may stay in more than one topic.
+2. Create a Mermaid flowchart that shows how the merged topics connect (e.g. prerequisite order, logical flow). Use standard Mermaid syntax (flowchart LR or TD, nodes, arrows).
 
-  const parsed = parseTopicsAndFlowchart(text);
-  return { ...parsed, cost };
+${TOPICS_JSON_FORMAT}
+
+--- TOPICS FROM EACH WINDOW ---
+${listing}`,
+    },
+  ];
 }
 
-function parseTopicsAndFlowchart(text: string): TopicsAndFlowchart {
+/**
+ * Split pages into consecutive windows of at most `maxTokens` of prompt
+ * text, each starting `overlap` pages before the previous one ended so a
+ * topic crossing the boundary is seen whole at least once.
+ */
+export function pageWindows(pages: PageData[], maxTokens: number, overlap: number): PageData[][] {
+  const tokens = pages.map((p) => approxTokens(buildTextContentForPages([p])));
+  const windows: PageData[][] = [];
+  let start = 0;
+  while (start < pages.length) {
+    let end = start;
+    let used = 0;
+    // Always take at least one page, even if it alone is over budget
+    while (end < pages.length && (end === start || used + tokens[end] <= maxTokens)) {
+      used += tokens[end];
+      end++;
+    }
+    windows.push(pages.slice(start, end));
+    if (end >= pages.length) break;
+    start = Math.max(start + 1, end - overlap);
+  }
+  return windows;
+}
+
+export class TopicExtractionError extends Error {
+  constructor(errors: string[], attempts: number) {
+    super(
+      `The topics response was still invalid after ${attempts} attempt(s):\n` +
+        errors.map((e) => `  - ${e}`).join("\n")
+    );
+    this.name = "TopicExtractionError";
+  }
+}
+
+/**
+ * Strictly validate the topics JSON. Returns the parsed value, or every
+ * problem found so the model can fix them all in one repair round.
+ */
+function parseTopicsAndFlowchart(
+  text: string,
+  pageNumbers: Set<number>
+): { value?: TopicsAndFlowchart; errors: string[] } {
   const trimmed = text.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/i, "").trim();
-  let data: { topics?: { name: string; pageNumbers: number[] }[]; mermaidFlowchart?: string };
+  let data: unknown;
   try {
-    data = JSON.parse(trimmed) as typeof data;
-  } catch {
-    return { topics: [], mermaidFlowchart: "flowchart LR\n  A[Topics] --> B[Summary]" };
+    data = JSON.parse(trimmed);
+  } catch (err) {
+    return { errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { errors: ["The response must be a JSON object with \"topics\" and \"mermaidFlowchart\""] };
+  }
+
+  const errors: string[] = [];
+  const { topics: rawTopics, mermaidFlowchart } = data as Record<string, unknown>;
+
+  const topics: TopicWithPages[] = [];
+  if (!Array.isArray(rawTopics) || rawTopics.length === 0) {
+    errors.push(`"topics" must be a non-empty array`);
+  } else {
+    rawTopics.forEach((raw, i) => {
+      const where = `topics[${i}]`;
+      if (typeof raw !== "object" || raw === null) {
+        errors.push(`${where} must be an object with "name" and "pageNumbers"`);
+        return;
+      }
+      const { name, pageNumbers: nums } = raw as Record<string, unknown>;
+      if (typeof name !== "string" || !name.trim()) {
+        errors.push(`${where}.name must be a non-empty string`);
+      }
+      if (!Array.isArray(nums) || nums.length === 0) {
+        errors.push(`${where}.pageNumbers must be a non-empty array of page numbers`);
+        return;
+      }
+      const bad = nums.filter((n) => !Number.isInteger(n) || !pageNumbers.has(n as number));
+      if (bad.length > 0) {
+        errors.push(
+          `${where}.pageNumbers contains pages that are not in the deck: ${bad.map((b) => JSON.stringify(b)).join(", ")}`
+        );
+      }
+      if (typeof name === "string" && name.trim() && bad.length === 0) {
+        topics.push({ name: name.trim(), pageNumbers: [...new Set(nums as number[])] });
+      }
+    });
+  }
+
+  if (typeof mermaidFlowchart !== "string" || !mermaidFlowchart.trim()) {
+    errors.push(`"mermaidFlowchart" must be a non-empty string`);
+  } else if (!/^\s*(flowchart|graph)\s+(LR|RL|TD|TB|BT)\b/.test(mermaidFlowchart)) {
+    errors.push(`"mermaidFlowchart" must start with "flowchart LR" or "flowchart TD"`);
   }
-  const topics: TopicWithPages[] = (data.topics ?? []).map((t) => ({
-    name: String(t.name ?? "Topic"),
-    pageNumbers: Array.isArray(t.pageNumbers) ? t.pageNumbers.map(Number) : [],
-  }));
-  const mermaidFlowchart = typeof data.mermaidFlowchart === "string"
-    ? data.mermaidFlowchart.trim()
-    : "flowchart LR\n  A[Topics] --> B[Summary]";
-  return { topics, mermaidFlowchart };
+
+  if (errors.length > 0) return { errors };
+  return { value: { topics, mermaidFlowchart: (mermaidFlowchart as string).trim() }, errors };
 }
 
-/** Step 2: For one topic, summarize text + image descriptions for its pages */
-async function summarizeTopic(
-  client: OpenAI,
+/**
+ * Every page with content must land in some topic, or it never reaches the
+ * notes. Orphans join the topic of the nearest earlier page (or the first
+ * topic when they open the deck) and are reported.
+ */
+function attachOrphanPages(
+  topics: TopicWithPages[],
+  contentPages: PageData[]
+): TopicWithPages[] {
+  const covered = new Set(topics.flatMap((t) => t.pageNumbers));
+  const orphans = contentPages
+    .map((p) => p.pageNumber)
+    .filter((n) => !covered.has(n));
+  if (orphans.length === 0) return topics;
+
+  const result = topics.map((t) => ({ ...t, pageNumbers: [...t.pageNumbers] }));
+  for (const page of orphans) {
+    let best = 0;
+    let bestPage = -Infinity;
+    result.forEach((t, i) => {
+      for (const n of t.pageNumbers) {
+        if (n < page && n > bestPage) {
+          best = i;
+          bestPage = n;
+        }
+      }
+    });
+    result[best].pageNumbers.push(page);
+    result[best].pageNumbers.sort((a, b) => a - b);
+  }
+  console.warn(
+    `[llm] Warning: ${orphans.length} page(s) were not assigned to any topic ` +
+      `(${orphans.map((n) => `p${n}`).join(", ")}); attached to the preceding topic`
+  );
+  return result;
+}
+
+function describePageRange(pageNumbers: Set<number>): string {
+  const sorted = [...pageNumbers].sort((a, b) => a - b);
+  return sorted.length === 0 ? "none" : `${sorted[0]}–${sorted[sorted.length - 1]}`;
+}
+
+/** Slide text, speaker notes and image descriptions of a topic's pages, as `[pN] …` entries */
+export function buildTopicContent(
   topic: TopicWithPages,
   pages: PageData[],
   descMap: Map<string, ImageDescription>
-): Promise<{ summary: string; cost: number }> {
+): string {
   const pageSet = new Set(topic.pageNumbers);
-  const topicPages = pages.filter((p) => pageSet.has(p.pageNumber));
-  const textContent = topicPages
-    .filter((p) => p.text.length > 0 || p.images.length > 0)
+  return pages
+    .filter((p) => pageSet.has(p.pageNumber) && hasContent(p))
     .map((p) => {
       let entry = `[p${p.pageNumber}]`;
+      if (p.textSource === "ocr") entry += " (OCR)";
       if (p.text) entry += ` ${p.text}`;
+      if (p.notes) entry += `\n  Speaker notes: ${p.notes}`;
       for (const img of p.images) {
         const desc = descMap.get(img.id);
         entry += `\n  {{${img.filename}}}: ${desc?.description ?? "diagram"}`;
@@ -378,11 +808,25 @@ async function summarizeTopic(
       return entry;
     })
     .join("\n\n");
+}
+
+/** Formulas as LaTeX; the writer renders them to MathML */
+export const MATH_RULE = String.raw`Write every formula and equation in LaTeX: $...$ inline and $$...$$ on its own line for important equations (e.g. the Nernst equation $$E = \frac{RT}{zF}\ln\frac{[X]_o}{[X]_i}$$). Write chemical formulas and reactions with \ce{}, e.g. $\ce{Na+}$ or $\ce{ATP + H2O -> ADP + P_i}$. Never use $ for anything else.`;
+
+/** Step 2: For one topic, summarize text + image descriptions for its pages */
+async function summarizeTopic(
+  provider: LLMProvider,
+  topic: TopicWithPages,
+  pages: PageData[],
+  descMap: Map<string, ImageDescription>,
+  profile: PromptProfile
+): Promise<{ summary: string; cost: number }> {
+  const textContent = buildTopicContent(topic, pages, descMap);
 
-  const messages: ChatCompletionMessageParam[] = [
+  const messages: ChatMessage[] = [
     {
       role: "system",
-      content: `You are an expert at turning university lecture content into clear, engaging study notes. Write in a descriptive, narrative style. Place diagrams INLINE next to the concept they illustrate (as ![caption](FILENAME)). Use **bold** for key terms. Be thorough but readable.`,
+      content: profile.prompts.summarySystem,
     },
     {
       role: "user",
@@ -394,46 +838,86 @@ Pages covered: ${topic.pageNumbers.join(", ")}
 RULES:
 - Write a ## ${topic.name} section with subsections (###) as needed.
 - Weave in image references where they help: use ![brief caption](FILENAME) right after the sentence that explains that concept. Only include images that are critical for understanding.
-- Descriptive and engaging; explain the "why" behind concepts. Use transitions between ideas.
+${profile.prompts.summaryRules.map((rule) => `- ${rule}`).join("\n")}
 - Use markdown: **bold** for key terms, bullets and short paragraphs.
+- ${MATH_RULE}
+- Cite your sources: end every paragraph and every bullet with the [pN] markers of the slides it is based on, e.g. [p12] or [p12, p14]. Use only page numbers listed above.
+- Speaker notes carry the lecturer's own explanation; use them to explain the slide content, not as separate sections.
+- Pages marked (OCR) were transcribed from an image of the slide and may contain recognition errors; correct obvious typos silently.
 
 --- CONTENT FOR THIS TOPIC ---
 ${textContent}`,
     },
   ];
 
-  const resp = await client.chat.completions.create({
-    model: CONFIG.model,
+  const { text: summary, cost } = await chatToCompletion(provider, {
+    task: "summary",
     messages,
-    max_tokens: 4000,
+    maxTokens: ANSWER_TOKENS.summary,
     temperature: 0,
   });
 
-  const summary = resp.choices[0]?.message?.content ?? "";
-  const inputTokens = resp.usage?.prompt_tokens ?? 0;
-  const outputTokens = resp.usage?.completion_tokens ?? 0;
-  const rates = COST[CONFIG.model];
-  const cost = inputTokens * rates.input + outputTokens * rates.output;
+  return { summary: addSectionCitation(summary, topic.pageNumbers), cost };
+}
 
-  return { summary, cost };
+/** Put a "Slides:" line citing the whole topic right under its ## heading */
+function addSectionCitation(summary: string, pageNumbers: number[]): string {
+  if (pageNumbers.length === 0) return summary;
+  const line = `_Slides:_ ${citationMarker(pageNumbers)}`;
+  const heading = summary.match(/^## .*$/m);
+  if (!heading) return `${line}\n\n${summary}`;
+  const end = heading.index! + heading[0].length;
+  return `${summary.slice(0, end)}\n\n${line}${summary.slice(end)}`;
 }
 
-/** Step 3: Merge topic summaries using the flowchart order and add closing sections */
-async function mergeStudyNotes(
-  client: OpenAI,
+/**
+ * Step 3: Merge topic summaries using the flowchart order and add closing
+ * sections. When the summaries are too long to rewrite in one answer, they
+ * are combined in groups and only the title, intro, concept map and closing
+ * sections are written from an outline of the whole.
+ */
+export async function mergeStudyNotes(
+  provider: LLMProvider,
   topics: TopicWithPages[],
   topicSummaries: string[],
   mermaidFlowchart: string,
-  pages: PageData[]
+  profile: PromptProfile
 ): Promise<{ notes: string; cost: number }> {
-  const topicBlocks = topics
-    .map((t, i) => `### ${t.name}\n${topicSummaries[i] ?? ""}`)
-    .join("\n\n");
+  const sections = topics.map((t, i) => `### ${t.name}\n${topicSummaries[i] ?? ""}`);
+  const totalTokens = sections.reduce((sum, sec) => sum + approxTokens(sec), 0);
+  if (totalTokens <= CONFIG.mergeMaxSectionTokens) {
+    const merged = await mergeInOnePass(provider, sections, mermaidFlowchart, profile);
+    return { ...merged, notes: stampNotes(merged.notes, profile) };
+  }
+
+  const groups = groupByTokens(sections, CONFIG.mergeMaxSectionTokens);
+  console.log(
+    `[llm] Topic summaries are ~${totalTokens} tokens; merging in ${groups.length} groups...`
+  );
+  const parts = await Promise.all(
+    groups.map((group, i) => combineSections(provider, group, i, groups.length, profile))
+  );
+  const frame = await writeFrame(provider, topics, parts.map((p) => p.text), mermaidFlowchart, profile);
+
+  return {
+    notes: stampNotes(assembleNotes(frame.text, parts.map((p) => p.text), profile), profile),
+    cost: parts.reduce((sum, p) => sum + p.cost, 0) + frame.cost,
+  };
+}
 
-  const messages: ChatCompletionMessageParam[] = [
+async function mergeInOnePass(
+  provider: LLMProvider,
+  sections: string[],
+  mermaidFlowchart: string,
+  profile: PromptProfile
+): Promise<{ notes: string; cost: number }> {
+  const closing = profile.sections.length
+    ? `a title, intro and closing sections (${profile.sections.map((s) => s.heading).join(", ")})`
+    : "a title and intro";
+  const messages: ChatMessage[] = [
     {
       role: "system",
-      content: `You are an expert at assembling study notes. Merge topic sections into one coherent document. Preserve the exact Mermaid diagram provided. Add a title, intro, and closing sections (Review Questions, Glossary, Common Pitfalls). Write in a descriptive, engaging style.`,
+      content: `${profile.prompts.mergeSystem} Merge topic sections into one coherent document. Preserve the exact Mermaid diagram provided. Add ${closing}.`,
     },
     {
       role: "user",
@@ -443,10 +927,8 @@ STRUCTURE (follow this order):
 1. # [Lecture Title] — choose a concise title from the content.
 2. Brief intro paragraph (2–4 sentences) that sets the scope of the lecture.
 3. ## Concept Map — paste the Mermaid flowchart exactly as given below (in \`\`\`mermaid ... \`\`\`).
-4. ## Main content — merge the topic sections below in the SAME order as in the flowchart. Use ## for each topic heading. Keep all inline images and formatting from each topic summary.
-5. ## Review Questions — add 5–8 questions with brief answers (**Q:** … **A:** …).
-6. ## Glossary — one-sentence definitions for key bold terms from the notes.
-7. ## Common Pitfalls — 3–5 common misconceptions with brief corrections.
+4. ## Main content — merge the topic sections below in the SAME order as in the flowchart. Use ## for each topic heading. Keep all inline images, math and formatting from each topic summary, and keep every slide citation ([p12], [p3, p5] and the "Slides:" line under each heading) exactly where it is.
+${closingStructure(profile, 5)}
 
 MERMAID FLOWCHART (use exactly):
 \`\`\`mermaid
@@ -454,34 +936,225 @@ ${mermaidFlowchart}
 \`\`\`
 
 TOPIC SECTIONS TO MERGE (in flowchart order):
-${topicBlocks}
+${sections.join("\n\n")}
 
 Produce the full study notes as a single markdown document.`,
     },
   ];
 
-  const resp = await client.chat.completions.create({
-    model: CONFIG.model,
+  const {
+    text: notes,
+    inputTokens,
+    outputTokens,
+    cost,
+    cached,
+  } = await chatToCompletion(provider, {
+    task: "merge",
     messages,
-    max_tokens: 10000,
+    maxTokens: ANSWER_TOKENS.merge,
     temperature: 0,
   });
 
-  const notes = resp.choices[0]?.message?.content ?? "";
-  const inputTokens = resp.usage?.prompt_tokens ?? 0;
-  const outputTokens = resp.usage?.completion_tokens ?? 0;
-  const rates = COST[CONFIG.model];
-  const cost = inputTokens * rates.input + outputTokens * rates.output;
-
   console.log(
-    `  Merge: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})`
+    `  Merge: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
   );
 
   return { notes, cost };
 }
 
+/** One group of topic sections → consecutive ## sections of the final notes */
+async function combineSections(
+  provider: LLMProvider,
+  sections: string[],
+  groupIdx: number,
+  totalGroups: number,
+  profile: PromptProfile
+): Promise<{ text: string; cost: number }> {
+  const others = ["title", "introduction", "concept map", ...profile.sections.map((s) => s.heading.toLowerCase())];
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `${profile.prompts.mergeSystem} Combine topic sections into one continuous part of a longer document.`,
+    },
+    {
+      role: "user",
+      content: `These topic sections are part ${groupIdx + 1} of ${totalGroups} of a lecture's study notes. Combine them into consecutive sections of the final document.
+
+RULES:
+- Use ## for each topic heading and ### for subsections, in the order given.
+- Keep all inline images (![caption](FILENAME)), math ($…$, $$…$$) and formatting from each section.
+- Keep every slide citation ([p12], [p3, p5] and the "Slides:" line under each heading) exactly where it is.
+- Add short transitions between topics and remove repetition between them.
+- Do NOT add a ${others.join(", ")} or conclusion; other parts of the document carry those.
+
+SECTIONS TO COMBINE:
+${sections.join("\n\n")}`,
+    },
+  ];
+
+  const { text, inputTokens, outputTokens, cost, cached } = await chatToCompletion(provider, {
+    task: "merge",
+    messages,
+    maxTokens: ANSWER_TOKENS.merge,
+    temperature: 0,
+  });
+
+  console.log(
+    `  Merge group ${groupIdx + 1}/${totalGroups}: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
+  );
+  return { text: text.trim(), cost };
+}
+
+const MAIN_CONTENT_MARKER = "<!-- MAIN CONTENT -->";
+
+/** The profile's closing sections as numbered STRUCTURE lines */
+function closingStructure(profile: PromptProfile, firstNumber: number): string {
+  return profile.sections
+    .map((s, i) => `${firstNumber + i}. ## ${s.heading} — ${s.instruction}`)
+    .join("\n");
+}
+
+/** Title, intro, concept map and closing sections, written from an outline of the combined parts */
+async function writeFrame(
+  provider: LLMProvider,
+  topics: TopicWithPages[],
+  parts: string[],
+  mermaidFlowchart: string,
+  profile: PromptProfile
+): Promise<{ text: string; cost: number }> {
+  const outline = parts.map(outlineOf).join("\n");
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `${profile.prompts.mergeSystem} Write the opening and closing sections around a lecture's main content, which you see only as an outline. Preserve the exact Mermaid diagram provided.`,
+    },
+    {
+      role: "user",
+      content: `The main content of these study notes (${topics.length} topics) is already written. Write everything around it.
+
+STRUCTURE (follow this order):
+1. # [Lecture Title] — choose a concise title from the outline.
+2. Brief intro paragraph (2–4 sentences) that sets the scope of the lecture.
+3. ## Concept Map — paste the Mermaid flowchart exactly as given below (in \`\`\`mermaid ... \`\`\`).
+4. A line containing exactly ${MAIN_CONTENT_MARKER} — the main content is inserted there.
+${closingStructure(profile, 5)}
+
+${MATH_RULE}
+
+MERMAID FLOWCHART (use exactly):
+\`\`\`mermaid
+${mermaidFlowchart}
+\`\`\`
+
+SECTION OUTLINE (headings, then key terms):
+${outline}`,
+    },
+  ];
+
+  const { text, inputTokens, outputTokens, cost, cached } = await chatToCompletion(provider, {
+    task: "merge",
+    messages,
+    maxTokens: ANSWER_TOKENS.mergeFrame,
+    temperature: 0,
+  });
+
+  console.log(
+    `  Merge frame: ${inputTokens} in / ${outputTokens} out ($${cost.toFixed(4)})${cached ? " [cached]" : ""}`
+  );
+  return { text, cost };
+}
+
+/** Headings plus the bold key terms under them */
+function outlineOf(part: string): string {
+  const headings = part.match(/^#{2,3} .+$/gm) ?? [];
+  const terms = [...new Set([...part.matchAll(/\*\*(.+?)\*\*/g)].map((m) => m[1]))];
+  return [...headings, terms.length ? `Key terms: ${terms.join(", ")}` : ""]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function assembleNotes(frame: string, parts: string[], profile: PromptProfile): string {
+  const main = parts.join("\n\n");
+  if (frame.includes(MAIN_CONTENT_MARKER)) {
+    return frame.replace(MAIN_CONTENT_MARKER, () => main);
+  }
+  // The model dropped the marker: put the content before the closing sections
+  const first = profile.sections[0];
+  const at = first ? frame.indexOf(`\n## ${first.heading}`) : -1;
+  return at === -1
+    ? `${frame.trim()}\n\n${main}\n`
+    : `${frame.slice(0, at + 1)}${main}\n\n${frame.slice(at + 1)}`;
+}
+
+/**
+ * Send a prose request and, if the answer stops at the token limit, ask the
+ * model to continue where it stopped (up to `CONFIG.maxContinuations` times).
+ * Token counts and cost cover every round.
+ */
+async function chatToCompletion(
+  provider: LLMProvider,
+  request: ChatRequest
+): Promise<ChatResponse> {
+  let response = await provider.chat(request);
+  let text = response.text;
+  const total = { ...response };
+
+  for (let round = 0; response.finishReason === "length"; round++) {
+    if (round >= CONFIG.maxContinuations) {
+      console.warn(
+        `[llm] Warning: ${request.task} answer still truncated after ${round} continuation(s); keeping what was written`
+      );
+      break;
+    }
+    console.warn(`[llm] ${request.task} answer hit the token limit; asking the model to continue`);
+    response = await provider.chat({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content: "Continue exactly where you stopped. Do not repeat anything already written and do not add any preamble.",
+        },
+      ],
+    });
+    text += response.text;
+    total.inputTokens += response.inputTokens;
+    total.outputTokens += response.outputTokens;
+    total.cost += response.cost;
+    total.cached = total.cached && response.cached;
+    total.finishReason = response.finishReason;
+  }
+
+  return { ...total, text };
+}
+
 // ── Utils ──
 
+/** Consecutive groups of items whose token counts add up to at most `maxTokens` */
+export function groupByTokens<T = string>(
+  items: T[],
+  maxTokens: number,
+  tokensOf: (item: T) => number = (item) => approxTokens(String(item))
+): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    const tokens = tokensOf(item);
+    if (current.length > 0 && used + tokens > maxTokens) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += tokens;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
 function chunk<T>(arr: T[], size: number): T[][] {
   const result: T[][] = [];
   for (let i = 0; i < arr.length; i += size) {
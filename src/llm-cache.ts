@@ -0,0 +1,156 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+} from "./llm-provider.js";
+
+export type CacheMode = "read-write" | "read-only" | "off";
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Cost the cached responses originally incurred, i.e. money not spent this run */
+  savedCost: number;
+}
+
+export interface CachedProvider extends LLMProvider {
+  cacheStats: CacheStats;
+}
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  task: string;
+  createdAt: string;
+  response: ChatResponse;
+}
+
+/**
+ * Wrap a provider with a content-addressed disk cache. The key covers the
+ * provider, model, every message (images by the hash of their bytes) and
+ * the sampling parameters, so any change to a prompt or image is a miss.
+ */
+export function withCache(
+  provider: LLMProvider,
+  cacheDir: string,
+  mode: CacheMode
+): CachedProvider {
+  const cacheStats: CacheStats = { hits: 0, misses: 0, savedCost: 0 };
+  // Identical requests issued in parallel share one API call
+  const inFlight = new Map<string, Promise<ChatResponse>>();
+
+  async function chat(request: ChatRequest): Promise<ChatResponse> {
+    if (mode === "off") {
+      cacheStats.misses++;
+      return provider.chat(request);
+    }
+
+    const key = cacheKey(provider, request);
+    const file = entryPath(cacheDir, key);
+
+    const entry = readEntry(file);
+    if (entry) {
+      cacheStats.hits++;
+      cacheStats.savedCost += entry.response.cost;
+      return { ...entry.response, cost: 0, cached: true };
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      cacheStats.hits++;
+      const resp = await pending;
+      cacheStats.savedCost += resp.cost;
+      return { ...resp, cost: 0, cached: true };
+    }
+
+    cacheStats.misses++;
+    const promise = provider.chat(request);
+    inFlight.set(key, promise);
+    try {
+      const response = await promise;
+      if (mode === "read-write") {
+        writeEntry(file, {
+          key,
+          provider: provider.name,
+          model: provider.model,
+          task: request.task,
+          createdAt: new Date().toISOString(),
+          response,
+        });
+      }
+      return response;
+    } finally {
+      inFlight.delete(key);
+    }
+  }
+
+  return { ...provider, chat, cacheStats };
+}
+
+export function clearCache(cacheDir: string): number {
+  if (!fs.existsSync(cacheDir)) return 0;
+  let removed = 0;
+  for (const shard of fs.readdirSync(cacheDir)) {
+    const shardDir = path.join(cacheDir, shard);
+    if (!fs.statSync(shardDir).isDirectory()) continue;
+    removed += fs.readdirSync(shardDir).filter((f) => f.endsWith(".json")).length;
+    fs.rmSync(shardDir, { recursive: true, force: true });
+  }
+  return removed;
+}
+
+function cacheKey(provider: LLMProvider, request: ChatRequest): string {
+  const hash = crypto.createHash("sha256");
+  hash.update(
+    JSON.stringify({
+      provider: provider.name,
+      // Two local servers can serve the same model name
+      endpoint: provider.endpoint,
+      model: provider.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    })
+  );
+  for (const msg of request.messages) {
+    hash.update(`\n${msg.role}\n`);
+    if (typeof msg.content === "string") {
+      hash.update(msg.content);
+      continue;
+    }
+    for (const part of msg.content) {
+      if (part.type === "text") {
+        hash.update(`text:${part.text}`);
+      } else {
+        const imageHash = crypto.createHash("sha256").update(part.data).digest("hex");
+        hash.update(`image:${part.mimeType}:${part.detail}:${imageHash}`);
+      }
+    }
+  }
+  return hash.digest("hex");
+}
+
+function entryPath(cacheDir: string, key: string): string {
+  return path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+}
+
+function readEntry(file: string): CacheEntry | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as CacheEntry;
+  } catch {
+    // A truncated entry (e.g. from a killed run) is just a miss
+    return undefined;
+  }
+}
+
+function writeEntry(file: string, entry: CacheEntry): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash never leaves a half-written entry behind
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry), "utf-8");
+  fs.renameSync(tmp, file);
+}
@@ -0,0 +1,370 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+
+export type ProviderName = "openai" | "openai-compatible" | "fake";
+
+export const PROVIDER_NAMES: readonly ProviderName[] = [
+  "openai",
+  "openai-compatible",
+  "fake",
+];
+
+/** Which pipeline step a request belongs to (lets the fake provider answer sensibly) */
+export type LLMTask =
+  | "ocr"
+  | "vision"
+  | "topics"
+  | "flowchart-repair"
+  | "summary"
+  | "merge"
+  | "verify"
+  | "quiz"
+  | "cheatsheet";
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      data: Buffer;
+      mimeType: string;
+      detail: "low" | "high" | "auto";
+    };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Aborts the HTTP request (set by the scheduler on timeout) */
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  finishReason: string;
+  cost: number;
+  /** Served from the local cache (cost is then 0) */
+  cached?: boolean;
+}
+
+/** USD per token */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  /** Server the requests go to (unset: the provider's own API) */
+  endpoint?: string;
+  pricing: ModelPricing;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Per-provider pricing metadata. Providers without an entry for a model
+ * (local servers, the fake) are treated as free.
+ */
+export const PRICING: Record<ProviderName, Record<string, ModelPricing>> = {
+  openai: {
+    "gpt-4o-mini": { input: 0.15 / 1_000_000, output: 0.60 / 1_000_000 },
+    "gpt-4o":      { input: 2.50 / 1_000_000, output: 5.0 / 1_000_000 },
+  },
+  "openai-compatible": {},
+  fake: {},
+};
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+export function pricingFor(provider: ProviderName, model: string): ModelPricing {
+  return PRICING[provider][model] ?? FREE;
+}
+
+export interface ProviderOptions {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export function createProvider(opts: ProviderOptions): LLMProvider {
+  switch (opts.provider) {
+    case "openai":
+      if (!opts.apiKey) throw new Error("The openai provider needs an API key");
+      return createOpenAIProvider("openai", opts.model, opts.apiKey);
+    case "openai-compatible":
+      if (!opts.baseURL) {
+        throw new Error("The openai-compatible provider needs a base URL");
+      }
+      // Local servers usually ignore the key but the SDK insists on one
+      return createOpenAIProvider(
+        "openai-compatible",
+        opts.model,
+        opts.apiKey || "not-needed",
+        opts.baseURL
+      );
+    case "fake":
+      return createFakeProvider(opts.model);
+  }
+}
+
+// ── OpenAI and OpenAI-compatible servers ──
+
+function createOpenAIProvider(
+  name: ProviderName,
+  model: string,
+  apiKey: string,
+  baseURL?: string
+): LLMProvider {
+  // Retries and timeouts are handled by the scheduler (llm-scheduler.ts)
+  const client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+  const pricing = pricingFor(name, model);
+
+  return {
+    name,
+    model,
+    endpoint: baseURL?.replace(/\/+$/, ""),
+    pricing,
+    async chat(request) {
+      const resp = await client.chat.completions.create(
+        {
+          model,
+          messages: request.messages.map(toOpenAIMessage),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        },
+        { signal: request.signal }
+      );
+
+      const inputTokens = resp.usage?.prompt_tokens ?? 0;
+      const outputTokens = resp.usage?.completion_tokens ?? 0;
+      return {
+        text: resp.choices[0]?.message?.content ?? "",
+        inputTokens,
+        outputTokens,
+        finishReason: resp.choices[0]?.finish_reason ?? "stop",
+        cost: inputTokens * pricing.input + outputTokens * pricing.output,
+      };
+    },
+  };
+}
+
+function toOpenAIMessage(msg: ChatMessage): ChatCompletionMessageParam {
+  if (typeof msg.content === "string" || msg.role !== "user") {
+    const text =
+      typeof msg.content === "string"
+        ? msg.content
+        : msg.content
+            .map((p) => (p.type === "text" ? p.text : ""))
+            .join("\n");
+    return { role: msg.role, content: text };
+  }
+
+  const content: ChatCompletionContentPart[] = msg.content.map((part) =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : {
+          type: "image_url",
+          image_url: {
+            url: `data:${part.mimeType};base64,${part.data.toString("base64")}`,
+            detail: part.detail,
+          },
+        }
+  );
+  return { role: "user", content };
+}
+
+// ── Deterministic in-process fake ──
+
+/** Rough token count used by the fake provider (≈4 characters per token) */
+export function approxTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createFakeProvider(model: string): LLMProvider {
+  return {
+    name: "fake",
+    model,
+    pricing: FREE,
+    async chat(request) {
+      const prompt = request.messages
+        .map((m) =>
+          typeof m.content === "string"
+            ? m.content
+            : m.content.map((p) => (p.type === "text" ? p.text : "")).join("\n")
+        )
+        .join("\n");
+      const text = fakeAnswer(request.task, prompt);
+      return {
+        text,
+        inputTokens: approxTokens(prompt),
+        outputTokens: approxTokens(text),
+        finishReason: "stop",
+        cost: 0,
+      };
+    },
+  };
+}
+
+function fakeAnswer(task: LLMTask, prompt: string): string {
+  switch (task) {
+    case "ocr": {
+      const page = prompt.match(/This is page (\d+)/)?.[1] ?? "?";
+      return `Transcribed text of page ${page}\nFigure: (fake provider)`;
+    }
+    case "vision": {
+      const ids = [...prompt.matchAll(/Image ID: (\S+) \(page (\d+)\)/g)];
+      return ids
+        .map(([, id, page]) =>
+          `[${id}]\n- **Main concept**: Figure from page ${page}.\n- **Key labels**: (fake provider)`
+        )
+        .join("\n\n");
+    }
+    case "topics": {
+      if (prompt.includes("TOPICS FROM EACH WINDOW")) return fakeReconcile(prompt);
+      const pageNums = [
+        ...new Set([...prompt.matchAll(/^\[p(\d+)\]/gm)].map((m) => Number(m[1]))),
+      ];
+      const groups = chunkNumbers(pageNums, 5);
+      const topics = groups.map((g, i) => ({
+        name: `Topic ${i + 1} (pages ${g[0]}–${g[g.length - 1]})`,
+        pageNumbers: g,
+      }));
+      return JSON.stringify({ topics, mermaidFlowchart: fakeFlowchart(topics.length) });
+    }
+    case "flowchart-repair":
+      return fakeFlowchart(new Set(prompt.match(/\bT\d+(?=\[)/g)).size);
+    case "summary": {
+      const name = prompt.match(/Topic: \*\*(.+?)\*\*/)?.[1] ?? "Topic";
+      const pages = [...prompt.matchAll(/^\[p(\d+)\] ?(.*)$/gm)];
+      const bullets = pages.map(([, n, text]) =>
+        `- **Page ${n}**: ${text.slice(0, 160).trim() || "(no text)"} [p${n}]`
+      );
+      return `## ${name}\n\n${bullets.join("\n")}\n`;
+    }
+    case "merge": {
+      if (prompt.includes("SECTIONS TO COMBINE:")) {
+        return (prompt.split("SECTIONS TO COMBINE:")[1] ?? "").replace(/^### .*\n/gm, "").trim();
+      }
+      const mermaid = prompt.match(/```mermaid\n([\s\S]*?)\n```/)?.[1] ?? "";
+      const sections = prompt.split("TOPIC SECTIONS TO MERGE")[1] ?? "";
+      const body = sections
+        .replace(/^.*\n/, "")
+        .replace(/Produce the full study notes[\s\S]*$/, "")
+        .replace(/^### .*\n/gm, "")
+        .trim();
+      return [
+        "# Lecture Notes",
+        "Notes generated by the fake provider.",
+        "## Concept Map",
+        "```mermaid\n" + mermaid + "\n```",
+        prompt.includes("SECTION OUTLINE") ? "<!-- MAIN CONTENT -->" : body,
+        "## Review Questions",
+        "**Q:** What is this lecture about? **A:** See the sections above.",
+        "## Glossary",
+        "- **Topic**: A group of related slides.",
+        "## Common Pitfalls",
+        "- Relying on fake output for studying.",
+      ].join("\n\n");
+    }
+    case "verify":
+      return fakeVerify(prompt);
+    case "quiz": {
+      const pages = [...prompt.matchAll(/^\[p(\d+)\] ?(.*)$/gm)].map(([, n, text]) => ({
+        n: Number(n),
+        text: text.slice(0, 60).trim() || "(no text)",
+      }));
+      const questions = pages.slice(0, 3).map((p, i) => ({
+        type: ["multiple-choice", "true-false", "short-answer"][i],
+        question: `What does page ${p.n} say?`,
+        ...(i === 0 ? { options: [p.text, "Something else", "Nothing", "All of the above"], answer: 0 } : {}),
+        ...(i === 1 ? { answer: true } : {}),
+        ...(i === 2 ? { answer: p.text } : {}),
+        explanation: "Generated by the fake provider.",
+        pages: [p.n],
+      }));
+      return JSON.stringify({ questions });
+    }
+    case "cheatsheet": {
+      const pages = [...prompt.matchAll(/^\[p(\d+)\] ?(.*)$/gm)].slice(0, 4);
+      const items = pages.map(([, n, text], i) => {
+        const snippet = text.slice(0, 60).trim() || "(no text)";
+        return {
+          kind: i === 0 ? "term" : "fact",
+          text: i === 0 ? `**Page ${n}**: ${snippet}` : snippet,
+          priority: Math.min(i + 1, 3),
+        };
+      });
+      const image = prompt.match(/\{\{([^}]+)\}\}:/)?.[1] ?? null;
+      return JSON.stringify({ items, image });
+    }
+  }
+}
+
+/** A statement is "supported" if most of its words appear on one source page */
+function fakeVerify(prompt: string): string {
+  const [statements = "", source = ""] = prompt
+    .split("--- STATEMENTS ---")[1]
+    ?.split("--- SOURCE ---") ?? [];
+  const pages = source
+    .split(/\n(?=\[p\d+\])/)
+    .map((block) => ({
+      page: Number(block.match(/\[p(\d+)\]/)?.[1]),
+      words: new Set(block.toLowerCase().split(/\W+/)),
+    }))
+    .filter((p) => p.page > 0);
+  const results = [...statements.matchAll(/^(C\d+)\. (.*)$/gm)].map(([, id, text]) => {
+    const words = text.toLowerCase().split(/\W+/).filter((w) => w.length > 3);
+    let best = { page: pages[0]?.page, share: 0 };
+    for (const p of pages) {
+      const share = words.filter((w) => p.words.has(w)).length / Math.max(1, words.length);
+      if (share > best.share) best = { page: p.page, share };
+    }
+    return best.share >= 0.5
+      ? { id, verdict: "supported", page: best.page }
+      : { id, verdict: "unsupported", page: best.page, reason: "Not on any source page (fake provider)" };
+  });
+  return JSON.stringify({ results });
+}
+
+function fakeFlowchart(topicCount: number): string {
+  const nodes = Array.from({ length: topicCount }, (_, i) => `T${i + 1}[Topic ${i + 1}]`);
+  const edges = nodes.slice(1).map((n, i) => `  ${nodes[i]} --> ${n}`);
+  return nodes.length > 1
+    ? `flowchart LR\n${edges.join("\n")}`
+    : `flowchart LR\n  T1[${nodes.length ? "Topic 1" : "Lecture"}]`;
+}
+
+/** Window topics that share a page are the same topic */
+function fakeReconcile(prompt: string): string {
+  const topics: { name: string; pageNumbers: number[] }[] = [];
+  for (const [, name, list] of prompt.matchAll(/^- (.+): pages ([\d, ]+)$/gm)) {
+    const pageNumbers = list.split(",").map(Number);
+    const last = topics[topics.length - 1];
+    if (last && pageNumbers.some((n) => last.pageNumbers.includes(n))) {
+      last.pageNumbers = [...new Set([...last.pageNumbers, ...pageNumbers])];
+    } else {
+      topics.push({ name, pageNumbers });
+    }
+  }
+  return JSON.stringify({ topics, mermaidFlowchart: fakeFlowchart(topics.length) });
+}
+
+function chunkNumbers(nums: number[], size: number): number[][] {
+  const result: number[][] = [];
+  for (let i = 0; i < nums.length; i += size) {
+    result.push(nums.slice(i, i + size));
+  }
+  return result;
+}
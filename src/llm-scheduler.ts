@@ -0,0 +1,198 @@
+import { imageTokens } from "./cost-estimator.js";
+import {
+  approxTokens,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+} from "./llm-provider.js";
+
+export interface SchedulerOptions {
+  /** Requests in flight at once, shared by every caller of the provider */
+  maxConcurrency: number;
+  /** Token budget per rolling minute (0 = unlimited) */
+  tokensPerMinute: number;
+  /** Retries after the first attempt for 429s, 5xx, timeouts and dropped connections */
+  maxRetries: number;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+  /** First backoff delay; doubles per retry up to `maxBackoffMs` */
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface SchedulerStats {
+  requests: number;
+  retries: number;
+  timeouts: number;
+  /** Requests that still failed after every retry */
+  failures: number;
+}
+
+export interface ScheduledProvider extends LLMProvider {
+  schedulerStats: SchedulerStats;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(task: string, timeoutMs: number) {
+    super(`The ${task} request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Wrap a provider so every request goes through one queue: at most
+ * `maxConcurrency` in flight, no more than `tokensPerMinute` estimated
+ * tokens per rolling minute, a timeout per attempt, and exponential
+ * backoff with full jitter on retryable errors.
+ */
+export function withScheduler(
+  provider: LLMProvider,
+  opts: SchedulerOptions
+): ScheduledProvider {
+  const schedulerStats: SchedulerStats = { requests: 0, retries: 0, timeouts: 0, failures: 0 };
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  // Tokens spent in the rolling window, as [timestamp, tokens]
+  const window: [number, number][] = [];
+
+  async function acquire(): Promise<void> {
+    if (active < opts.maxConcurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function release(): void {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  async function reserveTokens(tokens: number): Promise<[number, number] | undefined> {
+    if (opts.tokensPerMinute <= 0) return undefined;
+    // A request larger than the whole budget still has to go through eventually
+    const needed = Math.min(tokens, opts.tokensPerMinute);
+    for (;;) {
+      const now = Date.now();
+      while (window.length > 0 && window[0][0] <= now - WINDOW_MS) window.shift();
+      const used = window.reduce((sum, [, t]) => sum + t, 0);
+      if (used + needed <= opts.tokensPerMinute) {
+        const slot: [number, number] = [now, tokens];
+        window.push(slot);
+        return slot;
+      }
+      await sleep(window[0][0] + WINDOW_MS - now + 10);
+    }
+  }
+
+  async function attempt(request: ChatRequest): Promise<ChatResponse> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new RequestTimeoutError(request.task, opts.timeoutMs));
+      }, opts.timeoutMs);
+    });
+    try {
+      return await Promise.race([
+        provider.chat({ ...request, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function chat(request: ChatRequest): Promise<ChatResponse> {
+    schedulerStats.requests++;
+    const estimate = estimateTokens(provider.model, request);
+
+    for (let retry = 0; ; retry++) {
+      await acquire();
+      let error: unknown;
+      try {
+        const slot = await reserveTokens(estimate);
+        try {
+          const response = await attempt(request);
+          // Settle the reservation at what the call actually used
+          if (slot) slot[1] = response.inputTokens + response.outputTokens;
+          return response;
+        } catch (err) {
+          error = err;
+        }
+      } finally {
+        release();
+      }
+
+      if (error instanceof RequestTimeoutError) schedulerStats.timeouts++;
+      if (retry >= opts.maxRetries || !isRetryable(error)) {
+        schedulerStats.failures++;
+        throw error;
+      }
+      const delay =
+        retryAfterMs(error) ??
+        Math.random() * Math.min(opts.maxBackoffMs, opts.baseBackoffMs * 2 ** retry);
+      schedulerStats.retries++;
+      console.warn(
+        `[llm] ${request.task} request failed (${describeError(error)}); ` +
+          `retry ${retry + 1}/${opts.maxRetries} in ${(delay / 1000).toFixed(1)}s`
+      );
+      await sleep(delay);
+    }
+  }
+
+  return { ...provider, chat, schedulerStats };
+}
+
+export function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  const status = (err as { status?: number }).status;
+  return status ? `${status} ${err.message}` : err.message;
+}
+
+/** Prompt tokens plus the completion allowance, which is what rate limiters count */
+function estimateTokens(model: string, request: ChatRequest): number {
+  let tokens = request.maxTokens;
+  for (const msg of request.messages) {
+    if (typeof msg.content === "string") {
+      tokens += approxTokens(msg.content);
+      continue;
+    }
+    for (const part of msg.content) {
+      tokens += part.type === "text" ? approxTokens(part.text) : imageTokens(model, part.detail);
+    }
+  }
+  return tokens;
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof RequestTimeoutError) return true;
+  if (!(err instanceof Error)) return false;
+  const status = (err as { status?: number }).status;
+  if (status !== undefined) return status === 408 || status === 409 || status === 429 || status >= 500;
+  // No HTTP status: connection resets, DNS failures, SDK-side timeouts
+  return /connection|timed? ?out|ECONNRESET|ETIMEDOUT|socket hang up/i.test(
+    `${err.name} ${err.message}`
+  );
+}
+
+/** Honour the server's Retry-After hint (seconds or an HTTP date) when present */
+function retryAfterMs(err: unknown): number | undefined {
+  const headers = (err as { headers?: Record<string, string | null | undefined> } | undefined)
+    ?.headers;
+  const value = headers?.["retry-after-ms"] ?? headers?.["retry-after"];
+  if (!value) return undefined;
+  if (headers?.["retry-after-ms"]) return Number(value) || undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,68 @@
+import katex from "katex";
+import "katex/contrib/mhchem";
+import type { MarkedExtension } from "marked";
+
+/**
+ * `$...$` and `$$...$$` LaTeX in the notes, rendered to MathML at build
+ * time. Chrome (and so the PDF) and current browsers display MathML
+ * natively, so the output needs no scripts, fonts or CDN.
+ */
+
+/** `$$...$$` on lines of its own */
+const BLOCK_MATH = /^\$\$[ \t]*\n?([\s\S]+?)\n?[ \t]*\$\$[ \t]*(?:\n+|$)/;
+/** `$$...$$` inside a paragraph, then `$...$` that isn't a price ($5 and $10) */
+const INLINE_DISPLAY_MATH = /^\$\$([^$]+?)\$\$/;
+const INLINE_MATH = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+
+export const mathExtension: MarkedExtension = {
+  extensions: [
+    {
+      name: "blockMath",
+      level: "block",
+      start: (src) => src.match(/^\$\$/m)?.index,
+      tokenizer(src) {
+        const match = BLOCK_MATH.exec(src);
+        if (match) return { type: "blockMath", raw: match[0], text: match[1].trim() };
+      },
+      renderer: (token) => `<div class="math-display">${renderMath(token.text, true)}</div>\n`,
+    },
+    {
+      name: "inlineMath",
+      level: "inline",
+      start: (src) => src.indexOf("$"),
+      tokenizer(src) {
+        const display = INLINE_DISPLAY_MATH.exec(src);
+        if (display) {
+          return { type: "inlineMath", raw: display[0], text: display[1].trim(), display: true };
+        }
+        const match = INLINE_MATH.exec(src);
+        if (match) return { type: "inlineMath", raw: match[0], text: match[1], display: false };
+      },
+      renderer: (token) => renderMath(token.text, token.display as boolean),
+    },
+  ],
+};
+
+/** LaTeX → MathML; invalid LaTeX is shown as source with a warning */
+export function renderMath(tex: string, displayMode: boolean): string {
+  const mathml = texToMathMl(tex, displayMode);
+  if (mathml) return mathml;
+  const source = tex.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return `<code class="math-error">${displayMode ? `$$${source}$$` : `$${source}$`}</code>`;
+}
+
+/** LaTeX → MathML, or undefined (with a warning) if the LaTeX is invalid */
+export function texToMathMl(tex: string, displayMode: boolean): string | undefined {
+  try {
+    return katex.renderToString(tex, {
+      displayMode,
+      output: "mathml",
+      throwOnError: true,
+    });
+  } catch (err) {
+    console.warn(
+      `[math] Warning: could not render $${tex}$ (${(err as Error).message}); shown as source`
+    );
+    return undefined;
+  }
+}
@@ -0,0 +1,121 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import vm from "node:vm";
+import { JSDOM } from "jsdom";
+import type { Mermaid } from "mermaid";
+import type { Page } from "puppeteer";
+
+/**
+ * Mermaid from node_modules instead of a CDN: diagrams are syntax-checked in
+ * a jsdom window and rendered to inline SVG in the headless browser, so
+ * output works offline and HTML files need no scripts.
+ */
+
+const require = createRequire(import.meta.url);
+
+/** Browser build of the bundled Mermaid */
+export const MERMAID_SCRIPT_PATH = require.resolve("mermaid/dist/mermaid.min.js");
+
+const MERMAID_CONFIG = {
+  startOnLoad: false,
+  theme: "neutral",
+  // Plain SVG <text> labels instead of <foreignObject> HTML, so the SVG
+  // renders the same in any viewer
+  flowchart: { htmlLabels: false },
+} as const;
+
+let parser: Promise<Mermaid> | undefined;
+
+/**
+ * Parse a diagram with Mermaid's own grammar. Returns the parser's error
+ * message, or undefined if the diagram is valid.
+ */
+export async function mermaidSyntaxError(code: string): Promise<string | undefined> {
+  const mermaid = await (parser ??= loadParser());
+  try {
+    await mermaid.parse(code);
+    return undefined;
+  } catch (err) {
+    // Thrown in the jsdom window, so not an instance of this realm's Error
+    return (err as { message?: string }).message ?? String(err);
+  }
+}
+
+async function loadParser(): Promise<Mermaid> {
+  // Mermaid sanitizes labels with DOMPurify, which needs a DOM: run the
+  // browser build in a jsdom window, where it brings its own DOMPurify
+  const dom = new JSDOM("<!DOCTYPE html><html><body></body></html>", { runScripts: "outside-only" });
+  // As a script in the window's context, so its top-level var becomes window.mermaid
+  new vm.Script(fs.readFileSync(MERMAID_SCRIPT_PATH, "utf-8")).runInContext(dom.getInternalVMContext());
+  const { mermaid } = dom.window as unknown as { mermaid: Mermaid };
+  mermaid.initialize(MERMAID_CONFIG);
+  return mermaid;
+}
+
+export type DiagramResult = { svg: string } | { error: string };
+
+/** Render each diagram to an SVG string in a browser page */
+export async function renderDiagrams(page: Page, diagrams: string[]): Promise<DiagramResult[]> {
+  await page.setContent("<!DOCTYPE html><html><body></body></html>");
+  await page.addScriptTag({ path: MERMAID_SCRIPT_PATH });
+  return page.evaluate(
+    async (codes, config) => {
+      const { mermaid } = window as unknown as { mermaid: Mermaid };
+      mermaid.initialize(config);
+      const results: DiagramResult[] = [];
+      for (const [i, code] of codes.entries()) {
+        try {
+          const { svg } = await mermaid.render(`diagram-${i + 1}`, code);
+          results.push({ svg });
+        } catch (err) {
+          results.push({ error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+      return results;
+    },
+    diagrams,
+    MERMAID_CONFIG
+  );
+}
+
+export type DiagramImage = { png: Buffer } | { error: string };
+
+/**
+ * Render each diagram to a PNG, for formats that can't carry scripts or
+ * reliably show inline SVG (EPUB, DOCX). Screenshots are taken at 2× so the
+ * image stays sharp in print.
+ */
+export async function renderDiagramImages(page: Page, diagrams: string[]): Promise<DiagramImage[]> {
+  const results = await renderDiagrams(page, diagrams);
+  await page.setViewport({ width: 1200, height: 800, deviceScaleFactor: 2 });
+  const images: DiagramImage[] = [];
+  for (const result of results) {
+    if (!("svg" in result)) {
+      images.push(result);
+      continue;
+    }
+    await page.setContent(
+      `<!DOCTYPE html><html><body style="margin:0;background:#fff">` +
+        `<div id="diagram" style="display:inline-block;padding:8px">${result.svg}</div></body></html>`
+    );
+    const el = await page.$("#diagram");
+    images.push({ png: Buffer.from(await el!.screenshot({ type: "png" })) });
+  }
+  return images;
+}
+
+/**
+ * Fallback when no browser is available to pre-render: the bundled Mermaid
+ * inlined into the page, rendering `<div class="mermaid">` blocks on load.
+ */
+export function mermaidClientScript(): string {
+  // "</script" cannot appear inside a <script> element
+  const script = fs
+    .readFileSync(MERMAID_SCRIPT_PATH, "utf-8")
+    .replace(/<\/script/gi, "<\\/script");
+  return `
+<script>${script}</script>
+<script>
+  mermaid.initialize(${JSON.stringify({ ...MERMAID_CONFIG, startOnLoad: true })});
+</script>`;
+}
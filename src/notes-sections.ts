@@ -0,0 +1,84 @@
+import { parseCitation } from "./citations.js";
+import type { TopicWithPages } from "./llm-analyzer.js";
+
+/**
+ * Reading the merged study notes back: their ## sections (matched to
+ * topics) and the Review Questions and Glossary entries in them. Used by
+ * the exports that restructure the notes.
+ */
+
+export interface Section {
+  heading: string;
+  body: string;
+  topic?: TopicWithPages;
+}
+
+/** The notes' ## sections; topic sections are matched by name or by their "Slides:" line */
+export function splitSections(notes: string, topics: TopicWithPages[]): Section[] {
+  return notes
+    .split(/^(?=## )/m)
+    .filter((part) => part.startsWith("## "))
+    .map((part) => {
+      const [headingLine, ...lines] = part.split("\n");
+      const heading = headingLine.slice(3).trim();
+      const body = lines.join("\n");
+      const slides = body.match(/^_Slides:_\s*(\[.+\])\s*$/m);
+      const topic =
+        topics.find((t) => normalizeText(t.name) === normalizeText(heading)) ??
+        (slides ? topicForPages(topics, parseCitation(slides[1])) : undefined);
+      return { heading, body, ...(topic ? { topic } : {}) };
+    });
+}
+
+/** The Glossary section's heading (also when the notes call it Key Terms) */
+export function isGlossaryHeading(heading: string): boolean {
+  return /glossary|key terms/i.test(heading);
+}
+
+/** `**Q:** … **A:** …` pairs, on one line or spread over several */
+export function parseQuestions(body: string): { question: string; answer: string }[] {
+  const pairs: { question: string; answer: string }[] = [];
+  const pattern =
+    /\*\*Q:?\*\*:?\s*([\s\S]+?)\s*\*\*A:?\*\*:?\s*([\s\S]+?)\s*(?=(?:^\s*(?:\d+\.|[-*])\s*)?\*\*Q:?\*\*|$(?![\s\S]))/gm;
+  for (const [, question, answer] of body.matchAll(pattern)) {
+    pairs.push({ question: cleanEntry(question), answer: cleanEntry(answer) });
+  }
+  return pairs.filter((p) => p.question && p.answer);
+}
+
+/** `- **Term**: definition` (also with a dash, or the colon inside the bold) */
+export function parseGlossary(body: string): { term: string; definition: string }[] {
+  const entries: { term: string; definition: string }[] = [];
+  for (const line of body.split("\n")) {
+    const m = line.match(/^\s*(?:[-*]|\d+\.)?\s*\*\*(.+?):?\*\*\s*(?::|—|–|-)?\s*(.+)$/);
+    if (m && m[2].trim()) entries.push({ term: m[1].trim(), definition: cleanEntry(m[2]) });
+  }
+  return entries;
+}
+
+function cleanEntry(text: string): string {
+  return text
+    .split("\n")
+    .map((l) => l.replace(/^\s*(?:\d+\.|[-*])\s+/, "").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** The topic covering most of the pages */
+export function topicForPages(topics: TopicWithPages[], pages: number[]): TopicWithPages | undefined {
+  let best: TopicWithPages | undefined;
+  let bestCount = 0;
+  for (const t of topics) {
+    const count = pages.filter((n) => t.pageNumbers.includes(n)).length;
+    if (count > bestCount) {
+      best = t;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Lowercase words only, for matching names */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
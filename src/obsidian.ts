@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import { citationLabel } from "./citations.js";
+import type { TopicWithPages } from "./llm-analyzer.js";
+import { isGlossaryHeading, normalizeText, parseGlossary, splitSections } from "./notes-sections.js";
+
+export interface VaultOptions {
+  /** The lecture gets its own folder in here */
+  vaultDir: string;
+  imagesDir: string;
+  topics: TopicWithPages[];
+  mermaidFlowchart: string;
+  /** The deck the notes were made from (recorded in the front matter) */
+  sourcePath: string;
+}
+
+interface GlossaryNote {
+  term: string;
+  definition: string;
+  file: string;
+}
+
+const ATTACHMENTS = "attachments";
+const GLOSSARY = "Glossary";
+
+/**
+ * Write the notes as a folder of linked Obsidian notes: an index with the
+ * concept map, one note per topic, one per glossary term, and the images
+ * they show. Bold terms that have a glossary note become [[wikilinks]].
+ * Returns the path of the index note.
+ */
+export function writeVault(notes: string, opts: VaultOptions): string {
+  const title = notes.match(/^# (.+)$/m)?.[1].trim() ?? path.basename(opts.sourcePath);
+  const lectureDir = path.join(opts.vaultDir, noteFileName(title));
+  fs.mkdirSync(path.join(lectureDir, GLOSSARY), { recursive: true });
+  const lecture = {
+    title,
+    tag: `lecture/${normalizeText(title).replace(/ /g, "-") || "untitled"}`,
+    source: path.basename(opts.sourcePath),
+  };
+
+  const sections = splitSections(notes, opts.topics);
+  const topicSections = sections.filter((s) => s.topic);
+  const glossarySection = sections.find((s) => isGlossaryHeading(s.heading));
+  const glossary: GlossaryNote[] = (glossarySection ? parseGlossary(glossarySection.body) : []).map(
+    (e) => ({ ...e, file: noteFileName(e.term) })
+  );
+  const linkTerms = termLinker(glossary);
+  const copyImages = imageCopier(opts.imagesDir, path.join(lectureDir, ATTACHMENTS));
+
+  // ── Topic notes ──
+  const indexLink =
+    noteFileName(title) === title ? `[[${title}]]` : `[[${noteFileName(title)}|${title}]]`;
+  const topicFiles = topicSections.map((s) => noteFileName(s.topic!.name));
+  topicSections.forEach((section, i) => {
+    const topic = section.topic!;
+    const nav = [
+      `Part of ${indexLink}`,
+      i > 0 ? `← [[${topicFiles[i - 1]}]]` : "",
+      i < topicFiles.length - 1 ? `[[${topicFiles[i + 1]}]] →` : "",
+    ].filter(Boolean);
+    const body = copyImages(linkTerms(promoteHeadings(section.body.replace(/^_Slides:_.*\n?/m, ""))));
+    writeNote(lectureDir, topicFiles[i], {
+      frontMatter: {
+        lecture: title,
+        topic: topic.name,
+        pages: topic.pageNumbers,
+        source: lecture.source,
+        tags: [lecture.tag, "topic"],
+      },
+      body: `# ${topic.name}\n\n${nav.join(" · ")}\n\n${body.trim()}\n`,
+    });
+  });
+
+  // ── Glossary notes ──
+  for (const entry of glossary) {
+    const mentions = topicSections
+      .filter((s) => s.body.toLowerCase().includes(entry.term.toLowerCase()))
+      .map((s) => `- [[${noteFileName(s.topic!.name)}]]`);
+    writeNote(path.join(lectureDir, GLOSSARY), entry.file, {
+      frontMatter: { lecture: title, source: lecture.source, tags: [lecture.tag, "glossary"] },
+      body:
+        `# ${entry.term}\n\n${linkTerms(entry.definition, entry.term)}\n\n` +
+        (mentions.length > 0 ? `## Appears in\n\n${mentions.join("\n")}\n` : ""),
+    });
+  }
+
+  // ── Index note ──
+  const intro = notes.split(/^## /m)[0].replace(/^# .*$/m, "").trim();
+  const otherSections = sections.filter(
+    (s) => !s.topic && s !== glossarySection && !/concept map/i.test(s.heading)
+  );
+  const index = [
+    `# ${title}`,
+    intro && linkTerms(intro),
+    "## Concept Map",
+    "```mermaid\n" + opts.mermaidFlowchart + "\n```",
+    "## Topics",
+    topicSections
+      .map((s, i) => `${i + 1}. [[${topicFiles[i]}]] — ${citationLabel(s.topic!.pageNumbers)}`)
+      .join("\n"),
+    ...(glossary.length > 0
+      ? ["## Glossary", glossary.map((g) => `- [[${GLOSSARY}/${g.file}|${g.term}]]`).join("\n")]
+      : []),
+    ...otherSections.map((s) => `## ${s.heading}\n\n${copyImages(linkTerms(s.body.trim()))}`),
+  ].filter(Boolean);
+  const indexFile = writeNote(lectureDir, noteFileName(title), {
+    frontMatter: { lecture: title, source: lecture.source, tags: [lecture.tag, "lecture"] },
+    body: index.join("\n\n") + "\n",
+  });
+
+  console.log(
+    `[out] Obsidian notes saved to ${lectureDir} ` +
+      `(${topicSections.length} topics, ${glossary.length} glossary terms)`
+  );
+  return indexFile;
+}
+
+/** Link bold glossary terms (`**Term**` → `**[[Glossary/Term|Term]]**`) outside code blocks */
+function termLinker(glossary: GlossaryNote[]): (markdown: string, self?: string) => string {
+  const byName = new Map<string, GlossaryNote>();
+  for (const g of glossary) {
+    const key = normalizeText(g.term);
+    byName.set(key, g);
+    // Bold terms are often plural in running text
+    byName.set(key.endsWith("s") ? key.slice(0, -1) : `${key}s`, g);
+  }
+  return (markdown, self) =>
+    markdown
+      .split(/(^```[\s\S]*?^```)/m)
+      .map((part, i) =>
+        i % 2 === 1
+          ? part
+          : part.replace(/\*\*([^*\n]+?)\*\*/g, (bold, text: string) => {
+              const g = byName.get(normalizeText(text));
+              if (!g || g.term === self) return bold;
+              return `**[[${GLOSSARY}/${g.file}|${text}]]**`;
+            })
+      )
+      .join("");
+}
+
+/** Copy the images a note shows into the attachments folder and point its links there */
+function imageCopier(imagesDir: string, attachmentsDir: string): (markdown: string) => string {
+  return (markdown) =>
+    markdown.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (link, alt: string, src: string) => {
+      const file = path.join(imagesDir, src);
+      if (!fs.existsSync(file)) return link;
+      fs.mkdirSync(attachmentsDir, { recursive: true });
+      fs.copyFileSync(file, path.join(attachmentsDir, path.basename(src)));
+      return `![${alt}](${ATTACHMENTS}/${encodeURI(path.basename(src))})`;
+    });
+}
+
+/** ### → ## and so on: the topic's own heading is the note's # title */
+function promoteHeadings(markdown: string): string {
+  return markdown.replace(/^#(#{2,6}) /gm, "$1 ");
+}
+
+function writeNote(
+  dir: string,
+  name: string,
+  note: { frontMatter: Record<string, string | number[] | string[]>; body: string }
+): string {
+  const yaml = Object.entries(note.frontMatter).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${key}: [${value.map((v) => (typeof v === "number" ? v : JSON.stringify(v))).join(", ")}]`
+      : `${key}: ${JSON.stringify(value)}`
+  );
+  const file = path.join(dir, `${name}.md`);
+  fs.writeFileSync(file, `---\n${yaml.join("\n")}\n---\n\n${note.body}`, "utf-8");
+  return file;
+}
+
+/** A note name that is a valid file name and can be used in a [[link]] */
+function noteFileName(name: string): string {
+  return (
+    name
+      .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+      .replace(/\s+/g, " ")
+      .replace(/^[.\s]+|[.\s]+$/g, "")
+      .slice(0, 120) || "Untitled"
+  );
+}
@@ -1,8 +1,21 @@
-import mupdf from "mupdf";
+import mupdf, { type Page, type Rect } from "mupdf";
 import sharp from "sharp";
 import fs from "node:fs";
 import path from "node:path";
 import { CONFIG } from "./config.js";
+import {
+  filterImages,
+  summarizeDropped,
+  type DroppedImage,
+  type ImageFilterOptions,
+} from "./image-filter.js";
+import {
+  collectPaths,
+  findDiagramRegions,
+  renderRegions,
+  templateSignatures,
+  type VectorPath,
+} from "./vector-figures.js";
 
 export interface ExtractedImage {
   id: string;
@@ -12,33 +25,58 @@ export interface ExtractedImage {
   width: number;
   height: number;
   byteLength: number;
+  /** "vector" for figures rendered from drawn shapes rather than embedded */
+  kind?: "raster" | "vector";
+  /** Position on the page, in PDF points */
+  bbox?: Rect;
 }
 
 export interface PageData {
   pageNumber: number;
   text: string;
   images: ExtractedImage[];
+  /** Speaker notes (PPTX input only) */
+  notes?: string;
+  /** Full-page render of a text-poor page, for the OCR stage to transcribe */
+  pageRender?: ExtractedImage;
+  /** "ocr" when `text` was transcribed from `pageRender` instead of extracted */
+  textSource?: "ocr";
 }
 
 export interface ProcessedPDF {
   pages: PageData[];
   totalImages: number;
+  /** Images left out of the pipeline, with the reason (see image-filter.ts) */
+  droppedImages: DroppedImage[];
 }
 
-const MIN_IMAGE_DIMENSION = 50;
+export const MIN_IMAGE_DIMENSION = 50;
 
-export async function processPDF(pdfPath: string): Promise<ProcessedPDF> {
+export interface PDFOptions {
+  /** Pages with fewer non-whitespace characters are rendered for OCR (0 = off) */
+  ocrThreshold: number;
+  /** Detect drawings made of vector shapes and extract them as figures */
+  vectorFigures: boolean;
+  imageFilter: ImageFilterOptions;
+}
+
+export async function processPDF(
+  pdfPath: string,
+  imagesDir: string,
+  opts: PDFOptions
+): Promise<ProcessedPDF> {
   const fileData = fs.readFileSync(pdfPath);
   const doc = mupdf.Document.openDocument(fileData, "application/pdf");
   const pageCount = doc.countPages();
 
   console.log(`[pdf] Processing ${pageCount} pages...`);
 
-  fs.mkdirSync(CONFIG.imagesDir, { recursive: true });
+  fs.mkdirSync(path.join(imagesDir, path.dirname(slideThumbnailFile(1))), { recursive: true });
 
   const pages: PageData[] = [];
-  let totalImages = 0;
-  const seenImageHashes = new Set<string>();
+  const tooSmall: DroppedImage[] = [];
+  // Layout of every page, kept for vector figure detection afterwards
+  const layouts: { paths: VectorPath[]; textLines: Rect[]; imageBoxes: Rect[] }[] = [];
 
   for (let i = 0; i < pageCount; i++) {
     const page = doc.loadPage(i);
@@ -48,22 +86,25 @@ export async function processPDF(pdfPath: string): Promise<ProcessedPDF> {
     const text = stext.asText().trim();
 
     const images: ExtractedImage[] = [];
+    const textLines: Rect[] = [];
+    const imageBoxes: Rect[] = [];
 
     stext.walk({
-      onImageBlock(_bbox, _transform, image) {
+      beginLine(bbox) {
+        textLines.push(bbox);
+      },
+      onImageBlock(bbox, _transform, image) {
+        imageBoxes.push(bbox);
         const w = image.getWidth();
         const h = image.getHeight();
-        if (w < MIN_IMAGE_DIMENSION || h < MIN_IMAGE_DIMENSION) return;
+        if (w < MIN_IMAGE_DIMENSION || h < MIN_IMAGE_DIMENSION) {
+          tooSmall.push(tooSmallImage(pageNum, w, h));
+          return;
+        }
 
         const pixmap = image.toPixmap();
         const pngData = pixmap.asPNG();
 
-        // Deduplicate identical images across pages (e.g. backgrounds)
-        const hash = simpleHash(pngData);
-        if (seenImageHashes.has(hash)) return;
-        seenImageHashes.add(hash);
-
-        totalImages++;
         const id = `img-${pageNum}-${images.length + 1}`;
         const buf = Buffer.from(pngData);
         images.push({
@@ -74,14 +115,95 @@ export async function processPDF(pdfPath: string): Promise<ProcessedPDF> {
           width: w,
           height: h,
           byteLength: buf.length,
+          kind: "raster",
+          bbox,
         });
       },
     });
 
-    pages.push({ pageNumber: pageNum, text, images });
+    layouts.push({
+      paths: opts.vectorFigures ? collectPaths(page) : [],
+      textLines,
+      imageBoxes,
+    });
+
+    await saveThumbnail(page, path.join(imagesDir, slideThumbnailFile(pageNum)));
+
+    // Scanned handouts / screenshot slides: keep a render of the whole page
+    const pageRender =
+      countChars(text) < opts.ocrThreshold ? renderPage(page, pageNum) : undefined;
+
+    pages.push({ pageNumber: pageNum, text, images, ...(pageRender ? { pageRender } : {}) });
+  }
+
+  // Diagrams drawn with shapes (flowcharts, arrows, SmartArt) have no image
+  // block; find them from the page's paths and crop them out of a render
+  let vectorFigures = 0;
+  if (opts.vectorFigures) {
+    const template = templateSignatures(layouts.map((l) => l.paths));
+    for (let i = 0; i < pageCount; i++) {
+      const { paths, textLines, imageBoxes } = layouts[i];
+      const page = doc.loadPage(i);
+      const regions = findDiagramRegions(
+        paths,
+        page.getBounds(),
+        template,
+        textLines,
+        imageBoxes
+      );
+      const crops = await renderRegions(page, regions);
+      const pg = pages[i];
+
+      for (let r = 0; r < regions.length; r++) {
+        const buf = crops[r];
+        const meta = await sharp(buf).metadata();
+        vectorFigures++;
+        const id = `img-${pg.pageNumber}-${pg.images.length + 1}`;
+        pg.images.push({
+          id,
+          pageNumber: pg.pageNumber,
+          buffer: buf,
+          filename: `${id}.jpg`,
+          width: meta.width ?? 0,
+          height: meta.height ?? 0,
+          byteLength: buf.length,
+          kind: "vector",
+          bbox: regions[r],
+        });
+      }
+    }
+  }
+
+  // Near-duplicates (e.g. backgrounds), template decoration, blank strips
+  const droppedImages = [
+    ...tooSmall,
+    ...(await filterImages(pages, imagesDir, opts.imageFilter)),
+  ];
+  const totalImages = pages.reduce((sum, p) => sum + p.images.length, 0);
+
+  await finalizeImages(pages, imagesDir);
+
+  const pagesWithImages = pages.filter((p) => p.images.length > 0).length;
+  const pagesWithText = pages.filter((p) => p.text.length > 0).length;
+  const pagesRendered = pages.filter((p) => p.pageRender).length;
+  console.log(
+    `[pdf] Done: ${totalImages} images from ${pagesWithImages} pages` +
+      (vectorFigures ? ` (${vectorFigures} vector diagrams)` : "") +
+      `, text on ${pagesWithText} pages` +
+      (pagesRendered ? `, ${pagesRendered} text-poor pages rendered for OCR` : "")
+  );
+  if (droppedImages.length > 0) {
+    console.log(`[pdf] Dropped ${droppedImages.length} images: ${summarizeDropped(droppedImages)}`);
   }
 
-  // Resize and convert to JPEG to reduce LLM payload and save to disk
+  return { pages, totalImages, droppedImages };
+}
+
+/** Resize and convert to JPEG to reduce LLM payload and save to disk */
+export async function finalizeImages(
+  pages: PageData[],
+  imagesDir: string
+): Promise<void> {
   for (const pg of pages) {
     for (const img of pg.images) {
       const pipeline = sharp(img.buffer);
@@ -95,25 +217,77 @@ export async function processPDF(pdfPath: string): Promise<ProcessedPDF> {
       img.width = meta.width ?? img.width;
       img.height = meta.height ?? img.height;
       img.byteLength = img.buffer.length;
-      fs.writeFileSync(path.join(CONFIG.imagesDir, img.filename), img.buffer);
+      fs.writeFileSync(path.join(imagesDir, img.filename), img.buffer);
+    }
+
+    // Page renders keep their resolution so small slide text stays legible
+    if (pg.pageRender) {
+      const img = pg.pageRender;
+      img.buffer = await sharp(img.buffer)
+        .jpeg({ quality: CONFIG.imageJpegQuality })
+        .toBuffer();
+      img.byteLength = img.buffer.length;
+      fs.writeFileSync(path.join(imagesDir, img.filename), img.buffer);
     }
   }
+}
 
-  const pagesWithImages = pages.filter((p) => p.images.length > 0).length;
-  const pagesWithText = pages.filter((p) => p.text.length > 0).length;
-  console.log(
-    `[pdf] Done: ${totalImages} images from ${pagesWithImages} pages, ` +
-      `text on ${pagesWithText} pages`
+/** Where the small preview of a slide lives, relative to the images directory */
+export function slideThumbnailFile(pageNumber: number): string {
+  return path.posix.join("slides", `slide-${pageNumber}.jpg`);
+}
+
+/** Small render of the page, shown next to citations of it in the notes */
+async function saveThumbnail(page: Page, file: string): Promise<void> {
+  const [x0, , x1] = page.getBounds();
+  const scale = CONFIG.slideThumbnailWidth / Math.max(1, x1 - x0);
+  const pixmap = page.toPixmap(
+    mupdf.Matrix.scale(scale, scale),
+    mupdf.ColorSpace.DeviceRGB,
+    false,
+    true
   );
+  await sharp(Buffer.from(pixmap.asPNG()))
+    .jpeg({ quality: CONFIG.imageJpegQuality })
+    .toFile(file);
+}
 
-  return { pages, totalImages };
+function renderPage(page: Page, pageNum: number): ExtractedImage {
+  const [x0, , x1] = page.getBounds();
+  const scale = CONFIG.ocrRenderWidth / Math.max(1, x1 - x0);
+  const pixmap = page.toPixmap(
+    mupdf.Matrix.scale(scale, scale),
+    mupdf.ColorSpace.DeviceRGB,
+    false,
+    true
+  );
+  const buf = Buffer.from(pixmap.asPNG());
+  const id = `page-${pageNum}`;
+  return {
+    id,
+    pageNumber: pageNum,
+    buffer: buf,
+    filename: `${id}.jpg`,
+    width: pixmap.getWidth(),
+    height: pixmap.getHeight(),
+    byteLength: buf.length,
+  };
 }
 
-function simpleHash(data: Uint8Array): string {
-  let h = 0;
-  const step = Math.max(1, Math.floor(data.length / 1024));
-  for (let i = 0; i < data.length; i += step) {
-    h = (Math.imul(31, h) + data[i]) | 0;
-  }
-  return `${h}-${data.length}`;
+function countChars(text: string): number {
+  return text.replace(/\s+/g, "").length;
+}
+
+export function tooSmallImage(
+  pageNumber: number,
+  width: number,
+  height: number
+): DroppedImage {
+  return {
+    pageNumber,
+    width,
+    height,
+    reason: "too-small",
+    detail: `${width}×${height} is under ${MIN_IMAGE_DIMENSION}px`,
+  };
 }
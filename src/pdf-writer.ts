@@ -1,16 +1,35 @@
 import { Marked } from "marked";
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import { CONFIG } from "./config.js";
-
-const marked = new Marked();
-
-// Render mermaid code blocks as <div class="mermaid"> for client-side rendering
+import { pathToFileURL } from "node:url";
+import type { Page } from "puppeteer";
+import {
+  CITATION_PATTERN,
+  citationLabel,
+  parseCitation,
+} from "./citations.js";
+import { interactiveReader } from "./html-reader.js";
+import { slideThumbnailFile } from "./pdf-processor.js";
+import { mermaidClientScript, renderDiagramImages, renderDiagrams } from "./mermaid.js";
+import { mathExtension } from "./math.js";
+import {
+  DEFAULT_STYLE,
+  fillTemplate,
+  loadTemplate,
+  templateValues,
+  type DocumentStyle,
+  type Template,
+} from "./themes.js";
+
+const marked = new Marked(mathExtension);
+
+// Mermaid code blocks become <div class="mermaid">, replaced by SVG in generateOutput
 marked.use({
   renderer: {
     code({ text, lang, escaped }) {
       if (lang === "mermaid") {
-        return `<div class="mermaid">\n${text}\n</div>\n`;
+        return `<div class="mermaid">\n${escapeHtml(text)}\n</div>\n`;
       }
       const langString = lang ?? "";
       const code = escaped ? text : escapeHtml(text);
@@ -33,60 +52,74 @@ function escapeHtml(html: string): string {
   return html.replace(/[&<>"']/g, (ch) => map[ch] ?? ch);
 }
 
-export type OutputFormat = "pdf" | "html";
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+const DIAGRAM_PATTERN = /<div class="mermaid">\n([\s\S]*?)\n<\/div>/g;
+
+export type DocumentFormat = "pdf" | "html";
+
+/** How `[pN]` citations are shown: hover previews on screen, footnotes on paper */
+export type CitationStyle = "popup" | "footnote";
+
+export interface RenderOptions {
+  imagesDir: string;
+  /** The deck the notes were made from; citations link to its pages (PDF decks only) */
+  sourcePath?: string;
+  /** Document title (default "Study Notes") */
+  title?: string;
+  /** Theme, template and page setup (default: the default theme on A4) */
+  style?: DocumentStyle;
+  /** HTML only: wrap the page in the interactive reader (the notes, not the quiz) */
+  interactive?: boolean;
+}
 
 export async function generateOutput(
   markdown: string,
   outputPath: string,
-  format: OutputFormat
+  format: DocumentFormat,
+  opts: RenderOptions
 ): Promise<void> {
-  const html = await markdownToHtml(markdown);
-  const styledHtml = wrapInTemplate(html);
+  const html = await markdownToHtml(markdown, {
+    imagesDir: opts.imagesDir,
+    citationStyle: format === "html" ? "popup" : "footnote",
+    sourceHref: sourceHref(opts.sourcePath, outputPath, format),
+    interactive: format === "html" && opts.interactive,
+  });
+
+  const style = opts.style ?? DEFAULT_STYLE;
+  const template = loadTemplate(style);
+  const values = templateValues(style, opts.title ?? "Study Notes");
 
   if (format === "html") {
-    fs.writeFileSync(outputPath, styledHtml);
+    fs.writeFileSync(outputPath, wrapInTemplate(await renderHtmlDiagrams(html), template, values));
     console.log(`[out] HTML saved to ${outputPath}`);
     return;
   }
 
-  // PDF path — lazy-import puppeteer so HTML mode never needs Chrome
+  // PDF path — puppeteer is imported lazily; HTML mode works without Chrome
   console.log("[out] Rendering PDF via Puppeteer...");
-  const puppeteer = await import("puppeteer");
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-  });
+  const browser = await launchBrowser();
 
   try {
     const page = await browser.newPage();
-    await page.setContent(styledHtml, { waitUntil: "networkidle0" });
-
-    // Give Mermaid time to render diagrams (client-side JS)
-    if (styledHtml.includes('class="mermaid"')) {
-      await page
-        .waitForFunction(
-          () => {
-            const el = document.querySelector(".mermaid");
-            return !el || el.querySelector("svg");
-          },
-          { timeout: 10000 }
-        )
-        .catch(() => {
-          /* continue if timeout - diagrams may still render */
-        });
-    }
+    const styledHtml = wrapInTemplate(await inlineDiagrams(page, html), template, values);
+    await page.setContent(styledHtml, { waitUntil: "load" });
 
     await page.pdf({
       path: outputPath,
-      format: "A4",
-      margin: { top: "20mm", bottom: "20mm", left: "18mm", right: "18mm" },
+      format: style.page.size,
+      margin: style.page.margin,
       printBackground: true,
       displayHeaderFooter: true,
-      headerTemplate: `<span></span>`,
-      footerTemplate: `
-        <div style="font-size:9px; color:#888; width:100%; text-align:center; padding:0 20mm;">
-          <span class="pageNumber"></span> / <span class="totalPages"></span>
-        </div>`,
+      headerTemplate: fillTemplate(template.header, values),
+      footerTemplate: fillTemplate(template.footer, values),
     });
 
     console.log(`[out] PDF saved to ${outputPath}`);
@@ -95,189 +128,256 @@ export async function generateOutput(
   }
 }
 
-async function markdownToHtml(md: string): Promise<string> {
-  const imgPattern = /!\[([^\]]*)\]\(([^)]+)\)/g;
-  let processed = md;
-
-  for (const match of md.matchAll(imgPattern)) {
-    const [full, alt, src] = match;
-    const imgPath = path.join(CONFIG.imagesDir, src);
-
-    if (fs.existsSync(imgPath)) {
-      const data = fs.readFileSync(imgPath);
-      const b64 = data.toString("base64");
-      const ext = path.extname(src).slice(1) || "png";
-      const dataUri = `data:image/${ext};base64,${b64}`;
-      const replacement = `<figure><img src="${dataUri}" alt="${alt}"><figcaption>${alt}</figcaption></figure>`;
-      processed = processed.replace(full, replacement);
-    }
-  }
-
-  return await marked.parse(processed);
+export async function launchBrowser() {
+  const puppeteer = await import("puppeteer");
+  return puppeteer.launch({
+    headless: true,
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+  });
 }
 
-function wrapInTemplate(bodyHtml: string): string {
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="UTF-8">
-<title>Study Notes</title>
-<style>
-  @page {
-    size: A4;
-    margin: 0;
-  }
-
-  * {
-    box-sizing: border-box;
-  }
-
-  body {
-    font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
-    font-size: 11pt;
-    line-height: 1.55;
-    color: #1a1a1a;
-    max-width: 860px;
-    margin: 0 auto;
-    padding: 24px;
-  }
-
-  @media print {
-    body { max-width: 100%; padding: 0; }
-  }
-
-  h1 {
-    font-size: 20pt;
-    border-bottom: 2px solid #2563eb;
-    padding-bottom: 6px;
-    margin-top: 28px;
-    margin-bottom: 12px;
-    color: #1e3a5f;
-    page-break-after: avoid;
-  }
-
-  h2 {
-    font-size: 15pt;
-    color: #1e40af;
-    margin-top: 22px;
-    margin-bottom: 8px;
-    border-bottom: 1px solid #dbeafe;
-    padding-bottom: 4px;
-    page-break-after: avoid;
+/**
+ * Pre-render the diagrams for a standalone HTML file. Without a browser,
+ * fall back to embedding Mermaid itself so they still render offline.
+ */
+async function renderHtmlDiagrams(html: string): Promise<string> {
+  if (!html.match(DIAGRAM_PATTERN)) return html;
+  let browser;
+  try {
+    browser = await launchBrowser();
+  } catch {
+    console.warn(
+      "[mermaid] No browser to pre-render diagrams (is Chrome installed for Puppeteer?); " +
+        "embedding Mermaid to render them when the page is opened"
+    );
+    return html + mermaidClientScript();
   }
-
-  h3 {
-    font-size: 12.5pt;
-    color: #374151;
-    margin-top: 16px;
-    margin-bottom: 6px;
-    page-break-after: avoid;
+  try {
+    return await inlineDiagrams(await browser.newPage(), html);
+  } finally {
+    await browser.close();
   }
+}
 
-  p {
-    margin: 6px 0;
-  }
+/**
+ * Replace each Mermaid block with its SVG. A diagram that fails to render
+ * is shown as its source, with a warning, instead of as broken text.
+ */
+async function inlineDiagrams(page: Page, html: string): Promise<string> {
+  const codes = [...html.matchAll(DIAGRAM_PATTERN)].map((m) => unescapeHtml(m[1]));
+  if (codes.length === 0) return html;
+
+  const results = await renderDiagrams(page, codes);
+  let i = 0;
+  return html.replace(DIAGRAM_PATTERN, (_, code: string) => {
+    const result = results[i++];
+    if ("svg" in result) return `<div class="mermaid">${result.svg}</div>`;
+    console.warn(
+      `[mermaid] Warning: diagram ${i} could not be rendered and is shown as source: ` +
+        result.error.split("\n")[0]
+    );
+    return `<pre class="mermaid-error"><code>${code}</code></pre>`;
+  });
+}
 
-  ul, ol {
-    margin: 4px 0 8px 0;
-    padding-left: 22px;
+/**
+ * Replace each Mermaid block with a PNG of the diagram, saved to the images
+ * folder and captioned with the heading it sits under, for formats that
+ * need images (EPUB, DOCX). Without a browser the blocks stay as source.
+ */
+export async function prerenderDiagrams(markdown: string, imagesDir: string): Promise<string> {
+  const blocks = [...markdown.matchAll(MERMAID_BLOCK)];
+  if (blocks.length === 0) return markdown;
+  let browser;
+  try {
+    browser = await launchBrowser();
+  } catch {
+    console.warn(
+      "[mermaid] No browser to pre-render diagrams (is Chrome installed for Puppeteer?); " +
+        "they are included as Mermaid source"
+    );
+    return markdown;
   }
-
-  li {
-    margin-bottom: 3px;
+  let images;
+  try {
+    images = await renderDiagramImages(await browser.newPage(), blocks.map((m) => m[1]));
+  } finally {
+    await browser.close();
   }
 
-  strong {
-    color: #111827;
-  }
+  let i = 0;
+  return markdown.replace(MERMAID_BLOCK, (block, code: string, offset: number) => {
+    const image = images[i++];
+    if (!("png" in image)) {
+      console.warn(
+        `[mermaid] Warning: diagram ${i} could not be rendered and is included as source: ` +
+          image.error.split("\n")[0]
+      );
+      return block;
+    }
+    const hash = crypto.createHash("sha256").update(code).digest("hex").slice(0, 12);
+    const file = `diagram-${hash}.png`;
+    fs.writeFileSync(path.join(imagesDir, file), image.png);
+    const heading = [...markdown.slice(0, offset).matchAll(/^#{1,6} (.+)$/gm)].pop()?.[1];
+    return `![${heading?.trim() ?? "Diagram"}](${file})\n`;
+  });
+}
 
-  code {
-    background: #f3f4f6;
-    padding: 1px 4px;
-    border-radius: 3px;
-    font-size: 10pt;
-  }
+const MERMAID_BLOCK = /^```mermaid\n([\s\S]*?)^```[ \t]*\n?/gm;
+
+export interface HtmlOptions {
+  imagesDir: string;
+  citationStyle: CitationStyle;
+  /** Link target for citations; `#page=N` is appended */
+  sourceHref?: string;
+  /** The src to use for an image file (default: embedded as a data URI) */
+  imageSrc?: (file: string) => string;
+  /** Wrap the notes in the interactive reader (contents, search, progress) */
+  interactive?: boolean;
+}
 
-  pre {
-    background: #f9fafb;
-    border: 1px solid #e5e7eb;
-    border-radius: 4px;
-    padding: 10px;
-    overflow-x: auto;
-    font-size: 9.5pt;
-  }
+export async function markdownToHtml(md: string, opts: HtmlOptions): Promise<string> {
+  const { imagesDir } = opts;
+  const imgPattern = /!\[([^\]]*)\]\(([^)]+)\)/g;
+  let processed = md;
 
-  figure {
-    margin: 14px 0;
-    text-align: center;
-    page-break-inside: avoid;
-  }
+  for (const match of md.matchAll(imgPattern)) {
+    const [full, alt, src] = match;
+    const imgPath = path.join(imagesDir, src);
 
-  figure img {
-    max-width: 92%;
-    height: auto;
-    border: 1px solid #e5e7eb;
-    border-radius: 4px;
+    if (fs.existsSync(imgPath)) {
+      const imageSrc = opts.imageSrc ? opts.imageSrc(imgPath) : dataUri(imgPath);
+      const replacement = `<figure><img src="${imageSrc}" alt="${alt}"><figcaption>${alt}</figcaption></figure>`;
+      processed = processed.replace(full, replacement);
+    }
   }
 
-  figcaption {
-    font-size: 9pt;
-    color: #6b7280;
-    margin-top: 4px;
-    font-style: italic;
-  }
+  const cited = new Set<number>();
+  processed = renderCitations(processed, opts, cited);
+  const parsed = await marked.parse(processed);
+  const html = opts.interactive ? interactiveReader(parsed, md) : parsed;
+  return opts.citationStyle === "popup"
+    ? html + citationPopupAssets(cited, imagesDir)
+    : html;
+}
 
-  table {
-    border-collapse: collapse;
-    width: 100%;
-    margin: 10px 0;
-    font-size: 10pt;
-  }
+function dataUri(file: string): string {
+  const ext = path.extname(file).slice(1) || "png";
+  return `data:image/${ext};base64,${fs.readFileSync(file).toString("base64")}`;
+}
 
-  th, td {
-    border: 1px solid #d1d5db;
-    padding: 6px 10px;
-    text-align: left;
-  }
+/**
+ * Replace `[pN]` citations outside code blocks with HTML. A `_Slides:_`
+ * line under a heading cites the whole section and is always shown as is;
+ * other citations become hover links or numbered footnotes, listed at the
+ * end of their ## section.
+ */
+function renderCitations(md: string, opts: HtmlOptions, cited: Set<number>): string {
+  const link = (pages: number[], label: string) =>
+    opts.sourceHref
+      ? `<a href="${escapeHtml(opts.sourceHref)}#page=${pages[0]}">${label}</a>`
+      : label;
+
+  let footnoteCount = 0;
+  let pending: string[] = [];
+  const flushFootnotes = (): string => {
+    if (pending.length === 0) return "";
+    const start = footnoteCount - pending.length + 1;
+    const block = `\n<ol class="footnotes" start="${start}">\n${pending.join("\n")}\n</ol>\n\n`;
+    pending = [];
+    return block;
+  };
 
-  th {
-    background: #f3f4f6;
-    font-weight: 600;
-  }
+  const segments = md.split(/(^```[\s\S]*?^```)/m);
+  const out = segments.map((segment, i) => {
+    if (i % 2 === 1) return segment;
+    return segment
+      .split("\n")
+      .map((line) => {
+        const sectionLine = line.match(/^_Slides:_\s*(\[.+\])\s*$/);
+        if (sectionLine) {
+          const pages = parseCitation(sectionLine[1]);
+          pages.forEach((n) => cited.add(n));
+          const label = citationLabel(pages).replace(/^s/, "S");
+          const attrs = opts.citationStyle === "popup" ? ` class="cite" data-slides="${pages.join(",")}"` : "";
+          return `<p class="section-slides"><span${attrs}>${link(pages, label)}</span></p>`;
+        }
+
+        const prefix = opts.citationStyle === "footnote" && /^## /.test(line) ? flushFootnotes() : "";
+        return (
+          prefix +
+          line.replace(CITATION_PATTERN, (match) => {
+            const pages = parseCitation(match);
+            if (pages.length === 0) return match;
+            pages.forEach((n) => cited.add(n));
+            const space = /\s$/.test(match) ? " " : "";
+            if (opts.citationStyle === "popup") {
+              return `<span class="cite" data-slides="${pages.join(",")}">${link(pages, citationLabel(pages))}</span>${space}`;
+            }
+            footnoteCount++;
+            pending.push(`<li id="fn-${footnoteCount}">${link(pages, citationLabel(pages))}</li>`);
+            return `<sup class="fn"><a href="#fn-${footnoteCount}">${footnoteCount}</a></sup>${space}`;
+          })
+          // Footnote marks sit right after the word they annotate
+          .replace(/\s+<sup class="fn">/g, '<sup class="fn">')
+        );
+      })
+      .join("\n");
+  });
+  return out.join("") + (opts.citationStyle === "footnote" ? `\n${flushFootnotes()}` : "");
+}
 
-  hr {
-    border: none;
-    border-top: 1px solid #e5e7eb;
-    margin: 18px 0;
+/** Thumbnails of the cited slides (embedded once) and the script that previews them on hover */
+function citationPopupAssets(cited: Set<number>, imagesDir: string): string {
+  const thumbs: Record<number, string> = {};
+  for (const n of [...cited].sort((a, b) => a - b)) {
+    const file = path.join(imagesDir, slideThumbnailFile(n));
+    if (fs.existsSync(file)) {
+      thumbs[n] = `data:image/jpeg;base64,${fs.readFileSync(file).toString("base64")}`;
+    }
   }
+  if (Object.keys(thumbs).length === 0) return "";
 
-  blockquote {
-    border-left: 3px solid #2563eb;
-    margin: 10px 0;
-    padding: 4px 12px;
-    background: #eff6ff;
-    color: #1e40af;
-  }
+  // "</" cannot appear inside a <script> element
+  const json = JSON.stringify(thumbs).replace(/</g, "\\u003c");
+  return `
+<script type="application/json" id="slide-thumbs">${json}</script>
+<div id="cite-popup"></div>
+<script>
+  (function () {
+    var thumbs = JSON.parse(document.getElementById('slide-thumbs').textContent);
+    var popup = document.getElementById('cite-popup');
+    document.querySelectorAll('.cite').forEach(function (el) {
+      el.addEventListener('mouseenter', function () {
+        var slides = el.dataset.slides.split(',').filter(function (n) { return thumbs[n]; }).slice(0, 3);
+        if (!slides.length) return;
+        popup.innerHTML = slides.map(function (n) {
+          return '<figure><img src="' + thumbs[n] + '"><figcaption>Slide ' + n + '</figcaption></figure>';
+        }).join('');
+        popup.style.display = 'flex';
+        var r = el.getBoundingClientRect();
+        var left = Math.min(r.left, document.documentElement.clientWidth - popup.offsetWidth - 8);
+        popup.style.left = Math.max(8, left) + window.scrollX + 'px';
+        popup.style.top = r.bottom + window.scrollY + 6 + 'px';
+      });
+      el.addEventListener('mouseleave', function () { popup.style.display = 'none'; });
+    });
+  })();
+</script>`;
+}
 
-  .mermaid {
-    margin: 16px 0;
-    text-align: center;
-  }
+/** Citations open the source deck at the cited page (HTML: relative link, PDF: file URL) */
+function sourceHref(
+  sourcePath: string | undefined,
+  outputPath: string,
+  format: DocumentFormat
+): string | undefined {
+  if (!sourcePath || path.extname(sourcePath).toLowerCase() !== ".pdf") return undefined;
+  if (format === "pdf") return pathToFileURL(path.resolve(sourcePath)).href;
+  const rel = path.relative(path.dirname(path.resolve(outputPath)), path.resolve(sourcePath));
+  return encodeURI(rel.split(path.sep).join("/"));
+}
 
-  .mermaid svg {
-    max-width: 100%;
-    height: auto;
-  }
-</style>
-<script src="https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.min.js"></script>
-</head>
-<body>
-${bodyHtml}
-<script>
-  if (typeof mermaid !== 'undefined') {
-    mermaid.initialize({ startOnLoad: true, theme: 'neutral' });
-  }
-</script>
-</body>
-</html>`;
+function wrapInTemplate(bodyHtml: string, template: Template, values: Record<string, string | undefined>): string {
+  return fillTemplate(template.layout, { ...values, styles: template.css, content: bodyHtml });
 }
@@ -0,0 +1,666 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  processPDF,
+  type ExtractedImage,
+  type PageData,
+  type PDFOptions,
+  type ProcessedPDF,
+} from "./pdf-processor.js";
+import { processPPTX } from "./pptx-processor.js";
+import type { ImageFilterOptions } from "./image-filter.js";
+import {
+  applyTranscriptions,
+  buildSynthesisInputPages,
+  describeImages,
+  extractTopicsAndFlowchart,
+  mergeStudyNotes,
+  summarizeTopics,
+  transcribePages,
+  type ImageDescription,
+  type PageTranscription,
+  type SynthesisPageInput,
+  type TopicsAndFlowchart,
+} from "./llm-analyzer.js";
+import type { LLMProvider, LLMTask } from "./llm-provider.js";
+import {
+  estimateCost,
+  planWithinBudget,
+  printEstimate,
+  withoutImages,
+  type Budget,
+  type CostEstimate,
+  type EstimateOptions,
+} from "./cost-estimator.js";
+import {
+  highlightUnsupported,
+  verifyNotes,
+  type FaithfulnessReport,
+} from "./faithfulness.js";
+import { generateOutput } from "./pdf-writer.js";
+import type { DocumentStyle } from "./themes.js";
+import { writeDocx } from "./docx-writer.js";
+import { writeEpub } from "./epub-writer.js";
+import { buildFlashcards, flashcardsFile, writeFlashcards } from "./flashcards.js";
+import { writeVault } from "./obsidian.js";
+import { generateQuiz, quizMarkdown, type Quiz } from "./quiz.js";
+import { generateCheatSheet, renderCheatSheet, type CheatSheet } from "./cheatsheet.js";
+import { profileLabel, type PromptProfile } from "./prompt-profiles.js";
+
+export const STAGES = [
+  "extract",
+  "ocr",
+  "vision",
+  "topics",
+  "summaries",
+  "merge",
+  "verify",
+  "quiz",
+  "cheatsheet",
+  "render",
+] as const;
+
+export type StageName = (typeof STAGES)[number];
+
+/** Stages that call the model, and the task their requests are tagged with */
+const LLM_STAGES: [StageName, LLMTask][] = [
+  ["ocr", "ocr"],
+  ["vision", "vision"],
+  ["topics", "topics"],
+  ["summaries", "summary"],
+  ["merge", "merge"],
+  ["verify", "verify"],
+  ["quiz", "quiz"],
+  ["cheatsheet", "cheatsheet"],
+];
+
+/** What the render stage produces: a document, or a flashcard deck / table */
+export const OUTPUT_FORMATS = ["pdf", "html", "epub", "docx", "anki", "csv", "tsv", "obsidian"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** File extensions the extract stage can read */
+export const INPUT_EXTENSIONS = [".pdf", ".pptx"] as const;
+
+export interface PipelineOptions {
+  inputPath: string;
+  format: OutputFormat;
+  provider: LLMProvider;
+  outputDir: string;
+  imagesDir: string;
+  fromStage: StageName;
+  toStage: StageName;
+  /** Pages with fewer extracted characters get OCR'd (0 disables OCR) */
+  ocrThreshold: number;
+  /** Extract diagrams drawn with vector shapes as figures (PDF only) */
+  vectorFigures: boolean;
+  imageFilter: ImageFilterOptions;
+  /** Check the notes against the slides and highlight unsupported statements */
+  verify: boolean;
+  /** Write self-test questions per topic and render them as a quiz */
+  quiz: boolean;
+  /** Also write an exam cheat sheet fitted to this many pages (unset: no cheat sheet) */
+  cheatSheetPages?: number;
+  /** Wording of the prompts and the closing sections of the notes */
+  profile: PromptProfile;
+  /** Theme, template and page setup for HTML and PDF output */
+  style: DocumentStyle;
+  /** Stop after extraction and print the estimated cost of the LLM stages */
+  dryRun: boolean;
+  /** Spend cap; vision and OCR are cut back to fit it before anything runs */
+  budget?: Budget;
+}
+
+export interface PipelineResult {
+  pageCount: number;
+  totalImages: number;
+  /** API cost of the stages that actually ran */
+  cost: number;
+  /** Pre-run estimate for the same stages (unset if nothing was estimated) */
+  estimatedCost?: number;
+  outFile?: string;
+}
+
+type StoredImage = Omit<ExtractedImage, "buffer">;
+
+/** Pages as stored in the extract checkpoint: images live on disk, not inline */
+interface PagesCheckpoint {
+  source: string;
+  totalImages: number;
+  pages: (Omit<PageData, "images" | "pageRender"> & {
+    images: StoredImage[];
+    pageRender?: StoredImage;
+  })[];
+}
+
+interface OcrCheckpoint {
+  threshold: number;
+  transcriptions: PageTranscription[];
+}
+
+interface TopicSummariesCheckpoint {
+  topics: TopicsAndFlowchart["topics"];
+  summaries: string[];
+  /** Name and version of the prompt profile that wrote them */
+  profile?: string;
+}
+
+export class MissingCheckpointError extends Error {
+  constructor(stage: StageName, file: string) {
+    super(
+      `No checkpoint for stage "${stage}" at ${file}. ` +
+        `Run from an earlier stage (e.g. --from-stage ${stage}).`
+    );
+    this.name = "MissingCheckpointError";
+  }
+}
+
+export function parseStage(value: string): StageName | undefined {
+  return STAGES.find((s) => s === value.toLowerCase());
+}
+
+/**
+ * Run the stages between `fromStage` and `toStage`. Each stage writes a
+ * checkpoint to the output directory; stages before `fromStage` are not
+ * re-run, their results are loaded from those checkpoints on demand.
+ */
+export async function runPipeline(opts: PipelineOptions): Promise<PipelineResult> {
+  // The share of a budget this run has set aside is given back when it ends
+  const releases: (() => void)[] = [];
+  try {
+    return await runStages(opts, releases);
+  } finally {
+    for (const release of releases) release();
+  }
+}
+
+async function runStages(
+  opts: PipelineOptions,
+  releases: (() => void)[]
+): Promise<PipelineResult> {
+  const { provider, outputDir, imagesDir } = opts;
+  const from = STAGES.indexOf(opts.fromStage);
+  const to = STAGES.indexOf(opts.toStage);
+  const shouldRun = (stage: StageName) => {
+    const idx = STAGES.indexOf(stage);
+    return idx >= from && idx <= to;
+  };
+  const isDone = (stage: StageName) => STAGES.indexOf(stage) >= to;
+  /** The verify, quiz and cheat sheet stages only run when asked for */
+  const isEnabled = (stage: StageName) =>
+    stage === "verify"
+      ? opts.verify
+      : stage === "quiz"
+        ? opts.quiz
+        : stage === "cheatsheet"
+          ? opts.cheatSheetPages !== undefined
+          : true;
+
+  const files = checkpointFiles(outputDir);
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  let cost = 0;
+  let pages: PageData[] | undefined;
+  let transcribedPages: PageData[] | undefined;
+  let totalImages = 0;
+  let imageDescriptions: ImageDescription[] | undefined;
+  let topicsAndFlowchart: TopicsAndFlowchart | undefined;
+  let topicSummaries: string[] | undefined;
+  let studyNotes: string | undefined;
+  let estimate: CostEstimate | undefined;
+  let skipOcr = false;
+  let skipVision = new Set<string>();
+
+  const getPages = (): PageData[] => {
+    if (!pages) {
+      const cp = readJson<PagesCheckpoint>("extract", files.pages);
+      if (path.resolve(cp.source) !== path.resolve(opts.inputPath)) {
+        console.warn(
+          `[pipeline] Warning: checkpoint was made from ${cp.source}, not ${opts.inputPath}`
+        );
+      }
+      const load = (img: StoredImage): ExtractedImage => ({
+        ...img,
+        buffer: fs.readFileSync(path.join(imagesDir, img.filename)),
+      });
+      pages = cp.pages.map(({ pageRender, ...p }) => ({
+        ...p,
+        images: p.images.map(load),
+        ...(pageRender ? { pageRender: load(pageRender) } : {}),
+      }));
+      totalImages = cp.totalImages;
+      console.log(`[pipeline] Loaded ${pages.length} pages from ${files.pages}`);
+    }
+    return pages;
+  };
+  /** Pages with OCR transcriptions applied; what every later stage works on */
+  const getTranscribedPages = (): PageData[] => {
+    if (!transcribedPages) {
+      const cp = readJson<OcrCheckpoint>("ocr", files.ocr);
+      transcribedPages = applyTranscriptions(getPages(), cp.transcriptions);
+    }
+    return transcribedPages;
+  };
+  const getImageDescriptions = (): ImageDescription[] =>
+    (imageDescriptions ??= readJson<ImageDescription[]>("vision", files.imageDescriptions));
+  const getTopics = (): TopicsAndFlowchart =>
+    (topicsAndFlowchart ??= readJson<TopicsAndFlowchart>("topics", files.topics));
+  const getTopicSummaries = (): string[] => {
+    if (!topicSummaries) {
+      const cp = readJson<TopicSummariesCheckpoint>("summaries", files.topicSummaries);
+      if (cp.profile && cp.profile !== profileLabel(opts.profile)) {
+        console.warn(
+          `[profile] Topic summaries were written with the ${cp.profile} profile, not ${profileLabel(opts.profile)}; ` +
+            `rerun from --from-stage summaries to rewrite them`
+        );
+      }
+      topicSummaries = cp.summaries;
+    }
+    return topicSummaries;
+  };
+  const getStudyNotes = (): string => {
+    if (studyNotes === undefined) {
+      if (!fs.existsSync(files.studyNotes)) {
+        throw new MissingCheckpointError("merge", files.studyNotes);
+      }
+      studyNotes = fs.readFileSync(files.studyNotes, "utf-8");
+    }
+    return studyNotes;
+  };
+
+  // ── Step 1: Extract text + images from PDF / PPTX ──
+  if (shouldRun("extract")) {
+    const t = performance.now();
+    const processed = await processInput(opts.inputPath, imagesDir, {
+      ocrThreshold: opts.ocrThreshold,
+      vectorFigures: opts.vectorFigures,
+      imageFilter: opts.imageFilter,
+    });
+    pages = processed.pages;
+    totalImages = processed.totalImages;
+    const store = ({ buffer: _buffer, ...img }: ExtractedImage): StoredImage => img;
+    writeJson(files.pages, {
+      source: opts.inputPath,
+      totalImages,
+      pages: pages.map(({ pageRender, ...p }) => ({
+        ...p,
+        images: p.images.map(store),
+        ...(pageRender ? { pageRender: store(pageRender) } : {}),
+      })),
+    } satisfies PagesCheckpoint);
+    writeJson(files.droppedImages, processed.droppedImages);
+    if (processed.droppedImages.length > 0) {
+      console.log(`[out] Dropped-image report saved to ${files.droppedImages}`);
+    }
+    console.log(`  Step 1 took ${elapsed(t)}s\n`);
+  }
+  if (isDone("extract") && !opts.dryRun) return finish();
+
+  // ── Cost estimate (and budget plan) for the LLM stages about to run ──
+  const tasks = LLM_STAGES.filter(([stage]) => shouldRun(stage) && isEnabled(stage)).map(
+    ([, task]) => task
+  );
+  if (tasks.length > 0 && (pages || fs.existsSync(files.pages))) {
+    const estimateOpts: EstimateOptions = {
+      tasks,
+      topicCount:
+        !shouldRun("topics") && fs.existsSync(files.topics)
+          ? getTopics().topics.length
+          : undefined,
+    };
+    // OCR output is only known once it has run; until then price the raw pages
+    const estimatePages =
+      shouldRun("ocr") || !fs.existsSync(files.ocr) ? getPages() : getTranscribedPages();
+
+    if (opts.budget && !opts.dryRun) {
+      // Decks running alongside this one (--all) have set their plans aside
+      const remaining = opts.budget.available();
+      const plan = planWithinBudget(provider, estimatePages, estimateOpts, remaining);
+      ({ estimate, skipOcr, skipVision } = plan);
+      releases.push(opts.budget.setAside(estimate.cost, () => cost));
+      if (skipVision.size > 0) {
+        console.log(
+          `[budget] Skipping vision for ${skipVision.size} lowest-value images ` +
+            `to stay under $${remaining.toFixed(4)}`
+        );
+      }
+      if (skipOcr && shouldRun("ocr")) {
+        console.log(`[budget] Skipping OCR to stay under $${remaining.toFixed(4)}`);
+      }
+    } else {
+      estimate = estimateCost(provider, estimatePages, estimateOpts);
+    }
+    if (opts.dryRun || opts.budget) {
+      printEstimate(estimate);
+      console.log("");
+    } else {
+      console.log(`[estimate] ~$${estimate.cost.toFixed(4)} for the LLM stages\n`);
+    }
+  }
+  if (opts.dryRun) {
+    if (tasks.length === 0) console.log("[estimate] No LLM stages in range.\n");
+    return finish();
+  }
+
+  // ── Step 1b: Vision transcription of text-poor pages ──
+  if (shouldRun("ocr")) {
+    const t = performance.now();
+    const result = skipOcr
+      ? { transcriptions: [], cost: 0 }
+      : await transcribePages(provider, getPages());
+    cost += result.cost;
+    transcribedPages = applyTranscriptions(getPages(), result.transcriptions);
+    writeJson(files.ocr, {
+      threshold: opts.ocrThreshold,
+      transcriptions: result.transcriptions,
+    } satisfies OcrCheckpoint);
+    if (result.transcriptions.length > 0) {
+      const list = result.transcriptions.map((tr) => tr.pageNumber).join(", ");
+      console.log(`  Transcribed pages: ${list}`);
+      console.log(`[out] OCR report saved to ${files.ocr}`);
+    }
+    console.log(`  Step 1b took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("ocr")) return finish();
+
+  // ── Step 2: LLM vision analysis ──
+  if (shouldRun("vision")) {
+    const t = performance.now();
+    const result = await describeImages(
+      provider,
+      withoutImages(getTranscribedPages(), skipVision),
+      opts.profile
+    );
+    imageDescriptions = result.imageDescriptions;
+    cost += result.cost;
+    writeJson(files.imageDescriptions, imageDescriptions);
+    console.log(`[out] Image descriptions saved to ${files.imageDescriptions}`);
+    writeSynthesisInput(
+      files,
+      buildSynthesisInputPages(getTranscribedPages(), imageDescriptions)
+    );
+    console.log(`  Step 2 took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("vision")) return finish();
+
+  // ── Step 3: Three-step synthesis ──
+  // Step 3a: Text-only → topics + mermaid flowchart
+  if (shouldRun("topics")) {
+    const t = performance.now();
+    console.log("[llm] Step 3a: Extracting topics and flowchart (text only)...");
+    const { cost: stepCost, ...result } = await extractTopicsAndFlowchart(
+      provider,
+      getTranscribedPages(),
+      opts.profile
+    );
+    topicsAndFlowchart = result;
+    cost += stepCost;
+    writeJson(files.topics, topicsAndFlowchart);
+    console.log(`  Topics: ${result.topics.map((tp) => tp.name).join(", ")}`);
+    console.log(`  Step 3a took ${elapsed(t)}s (API cost: $${stepCost.toFixed(4)})\n`);
+  }
+  if (isDone("topics")) return finish();
+
+  // Step 3b: Per-topic summarization
+  if (shouldRun("summaries")) {
+    const t = performance.now();
+    console.log("[llm] Step 3b: Summarizing each topic (parallel)...");
+    const { topics } = getTopics();
+    const result = await summarizeTopics(
+      provider,
+      topics,
+      getTranscribedPages(),
+      getImageDescriptions(),
+      opts.profile
+    );
+    topicSummaries = result.topicSummaries;
+    cost += result.cost;
+    writeJson(files.topicSummaries, {
+      topics,
+      summaries: topicSummaries,
+      profile: profileLabel(opts.profile),
+    } satisfies TopicSummariesCheckpoint);
+    console.log(`  Step 3b took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("summaries")) return finish();
+
+  // Step 3c: Merge into final study notes using flowchart order
+  if (shouldRun("merge")) {
+    const t = performance.now();
+    console.log("[llm] Step 3c: Merging study notes...");
+    const { topics, mermaidFlowchart } = getTopics();
+    const result = await mergeStudyNotes(
+      provider,
+      topics,
+      getTopicSummaries(),
+      mermaidFlowchart,
+      opts.profile
+    );
+    studyNotes = result.notes;
+    cost += result.cost;
+    fs.writeFileSync(files.studyNotes, studyNotes);
+    console.log(`[out] Markdown saved to ${files.studyNotes}`);
+    console.log(`  Step 3c took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("merge")) return finish();
+
+  // Step 3d (optional): Check every statement against the source pages
+  if (shouldRun("verify") && isEnabled("verify")) {
+    const t = performance.now();
+    console.log("[llm] Step 3d: Verifying study notes against the slides...");
+    const sources = readJson<SynthesisPageInput[]>("vision", files.synthesisInput);
+    const result = await verifyNotes(provider, getStudyNotes(), sources, opts.profile);
+    cost += result.cost;
+    writeJson(files.faithfulness, result.report);
+    const { claims, checked, unsupported, contradicted } = result.report;
+    console.log(
+      `  ${checked}/${claims.length} statements checked: ` +
+        `${unsupported} unsupported, ${contradicted} contradicted`
+    );
+    console.log(`[out] Faithfulness report saved to ${files.faithfulness}`);
+    console.log(`  Step 3d took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("verify")) return finish();
+
+  // Step 3e (optional): Self-test questions per topic
+  if (shouldRun("quiz") && isEnabled("quiz")) {
+    const t = performance.now();
+    console.log("[llm] Step 3e: Writing self-test questions (parallel)...");
+    const result = await generateQuiz(
+      provider,
+      getTopics().topics,
+      getTranscribedPages(),
+      getImageDescriptions(),
+      opts.profile
+    );
+    cost += result.cost;
+    writeJson(files.quiz, result.quiz);
+    const count = result.quiz.sections.reduce((n, s) => n + s.questions.length, 0);
+    console.log(`  ${count} questions on ${result.quiz.sections.length} topics`);
+    console.log(`[out] Quiz saved to ${files.quiz}`);
+    console.log(`  Step 3e took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("quiz")) return finish();
+
+  // Step 3f (optional): Condensed entries per topic for the cheat sheet
+  if (shouldRun("cheatsheet") && isEnabled("cheatsheet")) {
+    const t = performance.now();
+    console.log("[llm] Step 3f: Condensing topics for the cheat sheet (parallel)...");
+    const result = await generateCheatSheet(
+      provider,
+      getTopics().topics,
+      getTranscribedPages(),
+      getImageDescriptions()
+    );
+    cost += result.cost;
+    writeJson(files.cheatSheet, result.sheet);
+    const count = result.sheet.sections.reduce((n, s) => n + s.items.length, 0);
+    console.log(`  ${count} entries on ${result.sheet.sections.length} topics`);
+    console.log(`[out] Cheat sheet entries saved to ${files.cheatSheet}`);
+    console.log(`  Step 3f took ${elapsed(t)}s (API cost: $${result.cost.toFixed(4)})\n`);
+  }
+  if (isDone("cheatsheet")) return finish();
+
+  // ── Step 4: Generate final output ──
+  const t = performance.now();
+  const title = getStudyNotes().match(/^# (.+)$/m)?.[1].trim() ?? "Lecture";
+  // The quiz is always written as interactive HTML; with --format pdf also as a printable sheet
+  if (opts.quiz) {
+    const quiz = readJson<Quiz>("quiz", files.quiz);
+    const quizOpts = {
+      imagesDir,
+      sourcePath: opts.inputPath,
+      title: `Self-Test: ${title}`,
+      style: opts.style,
+    };
+    await generateOutput(
+      quizMarkdown(quiz, title, "interactive"),
+      path.join(outputDir, "quiz.html"),
+      "html",
+      quizOpts
+    );
+    if (opts.format === "pdf") {
+      await generateOutput(
+        quizMarkdown(quiz, title, "print"),
+        path.join(outputDir, "quiz.pdf"),
+        "pdf",
+        quizOpts
+      );
+    }
+  }
+  if (opts.cheatSheetPages !== undefined) {
+    await renderCheatSheet(
+      readJson<CheatSheet>("cheatsheet", files.cheatSheet),
+      path.join(outputDir, "cheat-sheet.pdf"),
+      { pages: opts.cheatSheetPages, title, imagesDir, pageSize: opts.style.page.size }
+    );
+  }
+  if (opts.format === "anki" || opts.format === "csv" || opts.format === "tsv") {
+    const outFile = flashcardsFile(outputDir, opts.format);
+    const deck = buildFlashcards(getStudyNotes(), {
+      deckKey: path.basename(opts.inputPath, path.extname(opts.inputPath)),
+      topics: getTopics().topics,
+      imageDescriptions: getImageDescriptions(),
+    });
+    await writeFlashcards(deck, outFile, opts.format, imagesDir);
+    console.log(`  Step 4 took ${elapsed(t)}s\n`);
+    return finish(outFile);
+  }
+  if (opts.format === "obsidian") {
+    const { topics, mermaidFlowchart } = getTopics();
+    const outFile = writeVault(getStudyNotes(), {
+      vaultDir: path.join(outputDir, "vault"),
+      imagesDir,
+      topics,
+      mermaidFlowchart,
+      sourcePath: opts.inputPath,
+    });
+    console.log(`  Step 4 took ${elapsed(t)}s\n`);
+    return finish(outFile);
+  }
+  const outFile = path.join(outputDir, `study-notes.${opts.format}`);
+  let notes = getStudyNotes();
+  if (opts.verify) {
+    const report = readJson<FaithfulnessReport>("verify", files.faithfulness);
+    notes = highlightUnsupported(notes, report);
+  }
+  const renderOpts = {
+    imagesDir,
+    sourcePath: opts.inputPath,
+    title,
+    style: opts.style,
+  };
+  if (opts.format === "epub") await writeEpub(notes, outFile, renderOpts);
+  else if (opts.format === "docx") await writeDocx(notes, outFile, renderOpts);
+  else await generateOutput(notes, outFile, opts.format, { ...renderOpts, interactive: true });
+  console.log(`  Step 4 took ${elapsed(t)}s\n`);
+  return finish(outFile);
+
+  function finish(outFile?: string): PipelineResult {
+    // Page/image counts are only known if the extract checkpoint is around
+    if (!pages && fs.existsSync(files.pages)) getPages();
+    return {
+      pageCount: pages?.length ?? 0,
+      totalImages,
+      cost,
+      estimatedCost: estimate?.cost,
+      outFile,
+    };
+  }
+}
+
+function processInput(
+  inputPath: string,
+  imagesDir: string,
+  pdfOpts: PDFOptions
+): Promise<ProcessedPDF> {
+  const ext = path.extname(inputPath).toLowerCase();
+  // Slides in a .pptx cannot be rendered offline, so OCR and vector
+  // figure detection are PDF-only
+  if (ext === ".pptx") return processPPTX(inputPath, imagesDir, pdfOpts.imageFilter);
+  if (ext === ".pdf") return processPDF(inputPath, imagesDir, pdfOpts);
+  throw new Error(
+    `Unsupported input type "${ext}" (expected ${INPUT_EXTENSIONS.join(" or ")})`
+  );
+}
+
+function checkpointFiles(outputDir: string) {
+  return {
+    pages: path.join(outputDir, "pages.json"),
+    droppedImages: path.join(outputDir, "dropped-images.json"),
+    ocr: path.join(outputDir, "ocr-report.json"),
+    imageDescriptions: path.join(outputDir, "image-descriptions.json"),
+    synthesisInput: path.join(outputDir, "synthesis-input-pages.json"),
+    synthesisInputMd: path.join(outputDir, "synthesis-input-pages.md"),
+    topics: path.join(outputDir, "topics.json"),
+    topicSummaries: path.join(outputDir, "topic-summaries.json"),
+    studyNotes: path.join(outputDir, "study-notes.md"),
+    faithfulness: path.join(outputDir, "faithfulness-report.json"),
+    quiz: path.join(outputDir, "quiz.json"),
+    cheatSheet: path.join(outputDir, "cheat-sheet.json"),
+  };
+}
+
+function writeSynthesisInput(
+  files: ReturnType<typeof checkpointFiles>,
+  synthesisInputPages: SynthesisPageInput[]
+): void {
+  writeJson(files.synthesisInput, synthesisInputPages);
+  console.log(`[out] Synthesis input (per-page) saved to ${files.synthesisInput}`);
+
+  // Also save a readable markdown version of synthesis input
+  fs.writeFileSync(
+    files.synthesisInputMd,
+    formatSynthesisInputMarkdown(synthesisInputPages),
+    "utf-8"
+  );
+  console.log(`[out] Synthesis input (readable) saved to ${files.synthesisInputMd}`);
+}
+
+function formatSynthesisInputMarkdown(pages: SynthesisPageInput[]): string {
+  const parts: string[] = [];
+  for (const p of pages) {
+    parts.push(`## Page ${p.pageNumber}\n`);
+    if (p.textSource === "ocr") parts.push(`_(text transcribed from slide image)_\n`);
+    if (p.text) parts.push(p.text.trim(), "\n");
+    if (p.notes) parts.push(`### Speaker notes\n`, p.notes.trim(), "\n");
+    for (const img of p.images) {
+      parts.push(`### ${img.filename}\n`, img.description, "\n");
+    }
+    parts.push("\n");
+  }
+  return parts.join("");
+}
+
+function readJson<T>(stage: StageName, file: string): T {
+  if (!fs.existsSync(file)) throw new MissingCheckpointError(stage, file);
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+}
+
+function writeJson(file: string, data: unknown): void {
+  fs.writeFileSync(file, JSON.stringify(data, null, 2), "utf-8");
+}
+
+function elapsed(t0: number): string {
+  return ((performance.now() - t0) / 1000).toFixed(1);
+}
@@ -0,0 +1,305 @@
+import sharp from "sharp";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  finalizeImages,
+  MIN_IMAGE_DIMENSION,
+  tooSmallImage,
+  type ExtractedImage,
+  type PageData,
+  type ProcessedPDF,
+} from "./pdf-processor.js";
+import {
+  filterImages,
+  summarizeDropped,
+  type DroppedImage,
+  type ImageFilterOptions,
+} from "./image-filter.js";
+import { readZip, type ZipEntries } from "./zip.js";
+import {
+  childElements,
+  findAll,
+  findFirst,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from "./xml.js";
+
+const REL_NOTES_SLIDE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide";
+const REL_IMAGE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image";
+
+/** Placeholders that carry no lecture content */
+const SKIPPED_PLACEHOLDERS = new Set(["sldNum", "dt", "ftr", "hdr"]);
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+
+interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+/** A text box, table or picture on a slide, with its position for reading order */
+interface SlideShape {
+  x: number;
+  y: number;
+  isTitle: boolean;
+  text?: string;
+  imagePart?: string;
+}
+
+/**
+ * Extract slide text (in reading order), embedded pictures and speaker
+ * notes from a .pptx by reading the OOXML package directly.
+ */
+export async function processPPTX(
+  pptxPath: string,
+  imagesDir: string,
+  imageFilter: ImageFilterOptions
+): Promise<ProcessedPDF> {
+  const zip = readZip(fs.readFileSync(pptxPath));
+  const slideParts = listSlideParts(zip);
+
+  console.log(`[pptx] Processing ${slideParts.length} slides...`);
+
+  fs.mkdirSync(imagesDir, { recursive: true });
+
+  const pages: PageData[] = [];
+  let skippedImages = 0;
+  const tooSmall: DroppedImage[] = [];
+
+  for (let i = 0; i < slideParts.length; i++) {
+    const pageNum = i + 1;
+    const slidePart = slideParts[i];
+    const rels = readRels(zip, slidePart);
+    const slide = parseXml(readPart(zip, slidePart));
+
+    const spTree = findFirst(slide, "p:spTree");
+    const shapes = spTree ? sortReadingOrder(collectShapes(spTree, rels)) : [];
+
+    const text = shapes
+      .map((s) => s.text)
+      .filter((t): t is string => !!t)
+      .join("\n")
+      .trim();
+
+    const images: ExtractedImage[] = [];
+    for (const shape of shapes) {
+      if (!shape.imagePart || !zip.has(shape.imagePart)) continue;
+      const data = zip.get(shape.imagePart)!();
+
+      let width: number;
+      let height: number;
+      try {
+        const meta = await sharp(data).metadata();
+        width = meta.width ?? 0;
+        height = meta.height ?? 0;
+      } catch {
+        // EMF/WMF and other formats sharp cannot decode
+        skippedImages++;
+        continue;
+      }
+      if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+        tooSmall.push(tooSmallImage(pageNum, width, height));
+        continue;
+      }
+
+      const id = `img-${pageNum}-${images.length + 1}`;
+      images.push({
+        id,
+        pageNumber: pageNum,
+        buffer: data,
+        filename: `${id}.jpg`,
+        width,
+        height,
+        byteLength: data.length,
+      });
+    }
+
+    const notes = readNotes(zip, rels);
+    pages.push({ pageNumber: pageNum, text, images, ...(notes ? { notes } : {}) });
+  }
+
+  // Logos and backgrounds repeat on most slides; drop them with near-duplicates
+  const droppedImages = [
+    ...tooSmall,
+    ...(await filterImages(pages, imagesDir, imageFilter)),
+  ];
+  const totalImages = pages.reduce((sum, p) => sum + p.images.length, 0);
+
+  await finalizeImages(pages, imagesDir);
+
+  const pagesWithImages = pages.filter((p) => p.images.length > 0).length;
+  const pagesWithText = pages.filter((p) => p.text.length > 0).length;
+  const pagesWithNotes = pages.filter((p) => p.notes).length;
+  console.log(
+    `[pptx] Done: ${totalImages} images from ${pagesWithImages} slides, ` +
+      `text on ${pagesWithText} slides, speaker notes on ${pagesWithNotes} slides` +
+      (skippedImages ? ` (${skippedImages} images in unsupported formats skipped)` : "")
+  );
+  if (droppedImages.length > 0) {
+    console.log(`[pptx] Dropped ${droppedImages.length} images: ${summarizeDropped(droppedImages)}`);
+  }
+
+  return { pages, totalImages, droppedImages };
+}
+
+/** Slide part names in presentation order */
+function listSlideParts(zip: ZipEntries): string[] {
+  const presentationPart = "ppt/presentation.xml";
+  if (!zip.has(presentationPart)) {
+    throw new Error("Not a PowerPoint file: ppt/presentation.xml is missing");
+  }
+  const presentation = parseXml(readPart(zip, presentationPart));
+  const rels = readRels(zip, presentationPart);
+
+  return findAll(presentation, "p:sldId")
+    .map((el) => rels.get(el.attrs["r:id"]))
+    .filter((rel): rel is Relationship => !!rel && !rel.external)
+    .map((rel) => rel.target);
+}
+
+/** Title first, then top-to-bottom, left-to-right (the sort is stable) */
+function sortReadingOrder(shapes: SlideShape[]): SlideShape[] {
+  return shapes.sort(
+    (a, b) => Number(b.isTitle) - Number(a.isTitle) || a.y - b.y || a.x - b.x
+  );
+}
+
+function collectShapes(
+  container: XmlElement,
+  rels: Map<string, Relationship>
+): SlideShape[] {
+  const shapes: SlideShape[] = [];
+
+  for (const el of childElements(container)) {
+    switch (el.name) {
+      case "p:sp": {
+        const ph = findFirst(el, "p:ph");
+        const phType = ph?.attrs.type ?? "";
+        if (SKIPPED_PLACEHOLDERS.has(phType)) break;
+        const txBody = findFirst(el, "p:txBody");
+        const text = txBody ? paragraphsText(txBody) : "";
+        if (text) {
+          shapes.push({ ...position(el), isTitle: TITLE_PLACEHOLDERS.has(phType), text });
+        }
+        break;
+      }
+      case "p:pic": {
+        const blip = findFirst(el, "a:blip");
+        const rel = blip ? rels.get(blip.attrs["r:embed"]) : undefined;
+        if (rel && !rel.external && rel.type === REL_IMAGE) {
+          shapes.push({ ...position(el), isTitle: false, imagePart: rel.target });
+        }
+        break;
+      }
+      case "p:graphicFrame": {
+        const rows = findAll(el, "a:tr").map((tr) =>
+          findAll(tr, "a:tc")
+            .map((tc) => paragraphsText(tc).replace(/\n/g, " "))
+            .join(" | ")
+        );
+        if (rows.length > 0) {
+          shapes.push({ ...position(el), isTitle: false, text: rows.join("\n") });
+        }
+        break;
+      }
+      case "p:grpSp": {
+        // Keep grouped shapes together, placed at the group's own position
+        const { x, y } = position(el);
+        for (const child of sortReadingOrder(collectShapes(el, rels))) {
+          shapes.push({ ...child, x, y });
+        }
+        break;
+      }
+      case "mc:AlternateContent": {
+        const choice = findFirst(el, "mc:Choice") ?? findFirst(el, "mc:Fallback");
+        if (choice) shapes.push(...collectShapes(choice, rels));
+        break;
+      }
+    }
+  }
+
+  return shapes;
+}
+
+function position(el: XmlElement): { x: number; y: number } {
+  const off = findFirst(el, "a:off");
+  return {
+    x: Number(off?.attrs.x ?? 0),
+    y: Number(off?.attrs.y ?? 0),
+  };
+}
+
+/** Text of every <a:p> under `el`, one line per paragraph */
+function paragraphsText(el: XmlElement): string {
+  return findAll(el, "a:p")
+    .map((p) =>
+      childElements(p)
+        .map((run) => {
+          if (run.name === "a:br") return "\n";
+          if (run.name === "a:r" || run.name === "a:fld") {
+            const t = findFirst(run, "a:t");
+            return t ? textContent(t) : "";
+          }
+          return "";
+        })
+        .join("")
+        .trim()
+    )
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+function readNotes(
+  zip: ZipEntries,
+  slideRels: Map<string, Relationship>
+): string | undefined {
+  const rel = [...slideRels.values()].find((r) => r.type === REL_NOTES_SLIDE);
+  if (!rel || !zip.has(rel.target)) return undefined;
+
+  const notes = parseXml(readPart(zip, rel.target));
+  const text = findAll(notes, "p:sp")
+    .filter((sp) => findFirst(sp, "p:ph")?.attrs.type === "body")
+    .map((sp) => {
+      const txBody = findFirst(sp, "p:txBody");
+      return txBody ? paragraphsText(txBody) : "";
+    })
+    .filter((t) => t.length > 0)
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+function readRels(zip: ZipEntries, part: string): Map<string, Relationship> {
+  const relsPart = path.posix.join(
+    path.posix.dirname(part),
+    "_rels",
+    `${path.posix.basename(part)}.rels`
+  );
+  const rels = new Map<string, Relationship>();
+  if (!zip.has(relsPart)) return rels;
+
+  const baseDir = path.posix.dirname(part);
+  for (const el of findAll(parseXml(readPart(zip, relsPart)), "Relationship")) {
+    const external = el.attrs.TargetMode === "External";
+    const target = el.attrs.Target ?? "";
+    rels.set(el.attrs.Id, {
+      type: el.attrs.Type ?? "",
+      external,
+      target: external
+        ? target
+        : target.startsWith("/")
+          ? target.slice(1)
+          : path.posix.normalize(path.posix.join(baseDir, target)),
+    });
+  }
+  return rels;
+}
+
+function readPart(zip: ZipEntries, part: string): string {
+  const entry = zip.get(part);
+  if (!entry) throw new Error(`Missing part in PowerPoint package: ${part}`);
+  return entry().toString("utf-8");
+}
@@ -0,0 +1,221 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Prompt profiles tune the wording of the vision, topics, summary, merge,
+ * quiz and verify prompts to a discipline, and choose the closing sections
+ * of the notes. The OCR, cheat sheet and concept map repair prompts are not
+ * part of a profile: they transcribe, condense or fix syntax and read the
+ * same in every subject. Profiles are JSON files in profiles/ (or any path
+ * given to --profile):
+ *
+ *   name, version     recorded in the notes the profile produced
+ *   extends           another profile to start from (by name)
+ *   variables         values for {{name}} placeholders in the prompts
+ *   prompts           vision, visionParts, topicsSystem, summarySystem,
+ *                     summaryRules, mergeSystem, quizSystem, verifySystem
+ *   closingSections   { id, heading, instruction } written after the topics
+ *   defaultSections   ids of the closing sections written by default
+ *
+ * The output formats the pipeline relies on (JSON shapes, [pN] citations,
+ * image references) stay in the code and are added around these prompts.
+ * Flashcards, the vault and the HTML reader find the Review Questions and
+ * Glossary sections by heading, so profiles keep those names.
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const PROFILES_DIR = path.resolve(__dirname, "..", "profiles");
+
+export interface ClosingSection {
+  id: string;
+  heading: string;
+  /** What the section contains, e.g. "5–8 questions with brief answers" */
+  instruction: string;
+}
+
+export interface ProfilePrompts {
+  /** Opening of the image-description prompt */
+  vision: string;
+  /** Parts of each image description, as "**Label**: what it covers" */
+  visionParts: string[];
+  topicsSystem: string;
+  summarySystem: string;
+  /** Extra style rules for the topic summaries */
+  summaryRules: string[];
+  mergeSystem: string;
+  quizSystem: string;
+  verifySystem: string;
+}
+
+/** A loaded profile with its variables filled in */
+export interface PromptProfile {
+  name: string;
+  version: string;
+  description: string;
+  prompts: ProfilePrompts;
+  /** Closing sections to write, in order */
+  sections: ClosingSection[];
+  /** Every closing section the profile defines */
+  availableSections: ClosingSection[];
+}
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+interface ProfileFile {
+  name?: string;
+  version?: string;
+  description?: string;
+  extends?: string;
+  variables?: Record<string, string>;
+  prompts?: Partial<ProfilePrompts>;
+  closingSections?: ClosingSection[];
+  defaultSections?: string[];
+}
+
+/** Names of the profiles shipped in profiles/ */
+export function listProfiles(): string[] {
+  if (!fs.existsSync(PROFILES_DIR)) return [];
+  return fs
+    .readdirSync(PROFILES_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => path.basename(f, ".json"))
+    .sort();
+}
+
+/**
+ * Load a profile by name (from profiles/) or by path to a JSON file. With
+ * `sections`, write those closing sections (by id, in that order) instead
+ * of the profile's defaults.
+ */
+export function loadProfile(nameOrPath: string, sections?: string[]): PromptProfile {
+  const raw = resolveProfile(nameOrPath, new Set());
+  const label = `profile "${raw.name ?? nameOrPath}"`;
+  if (!raw.name || !raw.version) throw new ProfileError(`The ${label} needs a name and a version`);
+
+  const prompts = raw.prompts ?? {};
+  const missing = PROMPT_KEYS.filter((k) => prompts[k] === undefined);
+  if (missing.length > 0) {
+    throw new ProfileError(`The ${label} has no ${missing.join(", ")} prompt (add them or extend "general")`);
+  }
+  for (const key of ["visionParts", "summaryRules"] as const) {
+    if (!Array.isArray(prompts[key])) throw new ProfileError(`In the ${label}, ${key} must be a list of strings`);
+  }
+  for (const s of raw.closingSections ?? []) {
+    if (!s.id || !s.heading || !s.instruction) {
+      throw new ProfileError(`In the ${label}, every closing section needs an id, a heading and an instruction`);
+    }
+  }
+  const fill = (template: string) => fillVariables(template, raw.variables ?? {}, label);
+  const filled: ProfilePrompts = {
+    vision: fill(prompts.vision!),
+    visionParts: prompts.visionParts!.map(fill),
+    topicsSystem: fill(prompts.topicsSystem!),
+    summarySystem: fill(prompts.summarySystem!),
+    summaryRules: prompts.summaryRules!.map(fill),
+    mergeSystem: fill(prompts.mergeSystem!),
+    quizSystem: fill(prompts.quizSystem!),
+    verifySystem: fill(prompts.verifySystem!),
+  };
+
+  const available = (raw.closingSections ?? []).map((s) => ({
+    ...s,
+    instruction: fill(s.instruction),
+  }));
+  const byId = new Map(available.map((s) => [s.id, s]));
+  const chosen = (sections ?? raw.defaultSections ?? available.map((s) => s.id)).map((id) => {
+    const section = byId.get(id);
+    if (!section) {
+      throw new ProfileError(
+        `The ${label} has no closing section "${id}". Sections: ${[...byId.keys()].join(", ") || "none"}.`
+      );
+    }
+    return section;
+  });
+
+  return {
+    name: raw.name,
+    version: raw.version,
+    description: raw.description ?? "",
+    prompts: filled,
+    sections: chosen,
+    availableSections: available,
+  };
+}
+
+const PROMPT_KEYS: (keyof ProfilePrompts)[] = [
+  "vision",
+  "visionParts",
+  "topicsSystem",
+  "summarySystem",
+  "summaryRules",
+  "mergeSystem",
+  "quizSystem",
+  "verifySystem",
+];
+
+/** Read a profile file and everything it extends, merged (the extending profile wins) */
+function resolveProfile(nameOrPath: string, seen: Set<string>): ProfileFile {
+  const isPath = nameOrPath.endsWith(".json") || nameOrPath.includes("/") || nameOrPath.includes(path.sep);
+  const file = isPath ? path.resolve(nameOrPath) : path.join(PROFILES_DIR, `${nameOrPath}.json`);
+  if (!fs.existsSync(file)) {
+    throw new ProfileError(
+      isPath
+        ? `Profile not found: ${file}`
+        : `Unknown profile "${nameOrPath}". Profiles: ${listProfiles().join(", ")} (or a path to a .json file).`
+    );
+  }
+  if (seen.has(file)) throw new ProfileError(`Profile ${file} extends itself`);
+  seen.add(file);
+
+  let profile: ProfileFile;
+  try {
+    profile = JSON.parse(fs.readFileSync(file, "utf-8")) as ProfileFile;
+  } catch (err) {
+    throw new ProfileError(`${file} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!profile.extends) return profile;
+
+  const base = resolveProfile(profile.extends, seen);
+  // Sections with the same id replace the base's; new ones are added after
+  const sections = new Map((base.closingSections ?? []).map((s) => [s.id, s]));
+  for (const s of profile.closingSections ?? []) sections.set(s.id, s);
+  return {
+    ...base,
+    ...profile,
+    variables: { ...base.variables, ...profile.variables },
+    prompts: { ...base.prompts, ...profile.prompts },
+    closingSections: [...sections.values()],
+    defaultSections: profile.defaultSections ?? base.defaultSections,
+  };
+}
+
+function fillVariables(template: string, variables: Record<string, string>, label: string): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) throw new ProfileError(`The ${label} uses {{${name}}} but does not define it`);
+    return value;
+  });
+}
+
+/** "medicine 1.1.0" */
+export function profileLabel(profile: Pick<PromptProfile, "name" | "version">): string {
+  return `${profile.name} ${profile.version}`;
+}
+
+const STAMP = /^<!-- Prompt profile: (.+?) -->\n*/;
+
+/** Record the profile at the top of the notes it produced (an HTML comment, so it is not shown) */
+export function stampNotes(notes: string, profile: PromptProfile): string {
+  return `<!-- Prompt profile: ${profileLabel(profile)} -->\n\n${notes.replace(STAMP, "")}`;
+}
+
+/** The profile recorded in the notes, if any */
+export function notesProfile(notes: string): string | undefined {
+  return notes.match(STAMP)?.[1];
+}
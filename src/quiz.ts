@@ -0,0 +1,313 @@
+import { CONFIG } from "./config.js";
+import { citationLabel, citationMarker } from "./citations.js";
+import {
+  buildTopicContent,
+  MATH_RULE,
+  type ImageDescription,
+  type TopicWithPages,
+} from "./llm-analyzer.js";
+import type { ChatMessage, LLMProvider } from "./llm-provider.js";
+import { describeError } from "./llm-scheduler.js";
+import type { PageData } from "./pdf-processor.js";
+import type { PromptProfile } from "./prompt-profiles.js";
+
+interface QuestionBase {
+  question: string;
+  /** Why the answer is right (and the tempting wrong answers wrong) */
+  explanation: string;
+  /** Slides the answer is based on */
+  pages: number[];
+}
+
+export type QuizQuestion =
+  | (QuestionBase & { type: "multiple-choice"; options: string[]; answer: number })
+  | (QuestionBase & { type: "true-false"; answer: boolean })
+  | (QuestionBase & { type: "short-answer"; answer: string });
+
+export interface Quiz {
+  sections: { topic: string; questions: QuizQuestion[] }[];
+}
+
+/** Interactive HTML (answer, score, reveal) or a printable sheet with the key at the end */
+export type QuizMode = "interactive" | "print";
+
+/**
+ * Optional Step 3e: write self-test questions for each topic from the same
+ * slide text, notes and figure descriptions the summaries are written
+ * from. A topic whose questions fail is left out with a warning.
+ */
+export async function generateQuiz(
+  provider: LLMProvider,
+  topics: TopicWithPages[],
+  pages: PageData[],
+  imageDescriptions: ImageDescription[],
+  profile: PromptProfile
+): Promise<{ quiz: Quiz; cost: number }> {
+  const descMap = new Map(imageDescriptions.map((d) => [d.imageId, d]));
+  const results = await Promise.all(
+    topics.map(async (topic) => {
+      try {
+        const { text, finishReason, cost } = await provider.chat({
+          task: "quiz",
+          messages: buildQuizMessages(topic, buildTopicContent(topic, pages, descMap), profile),
+          maxTokens: 3000,
+          temperature: 0,
+        });
+        if (finishReason === "length") {
+          console.warn(`[quiz] Warning: questions for "${topic.name}" were cut off at the token limit`);
+        }
+        return { questions: parseQuestions(text, topic), cost };
+      } catch (err) {
+        console.warn(`[quiz] Warning: no questions for "${topic.name}" (${describeError(err)})`);
+        return { questions: [], cost: 0 };
+      }
+    })
+  );
+
+  const sections = topics
+    .map((t, i) => ({ topic: t.name, questions: results[i].questions }))
+    .filter((s) => s.questions.length > 0);
+  return { quiz: { sections }, cost: results.reduce((sum, r) => sum + r.cost, 0) };
+}
+
+function buildQuizMessages(
+  topic: TopicWithPages,
+  textContent: string,
+  profile: PromptProfile
+): ChatMessage[] {
+  const n = CONFIG.quizQuestionsPerTopic;
+  return [
+    {
+      role: "system",
+      content: `${profile.prompts.quizSystem} Write questions strictly from the lecture material given. Output valid JSON only.`,
+    },
+    {
+      role: "user",
+      content: `Write ${n} self-test questions on this lecture topic.
+
+Topic: **${topic.name}**
+Pages covered: ${topic.pageNumbers.join(", ")}
+
+RULES:
+- Mix the types: mostly "multiple-choice" (4 options, exactly one correct, plausible distractors based on common misconceptions), at least one "true-false" and one "short-answer" (answerable in 1–3 sentences).
+- Ask about mechanisms, relationships and applications, not just definitions.
+- Every question must be answerable from the content below alone.
+- "explanation": 1–2 sentences on why the answer is correct (and, for multiple choice, why the most tempting distractor is wrong).
+- "pages": the [pN] page numbers the answer is based on.
+- ${MATH_RULE}
+
+Respond with ONLY a JSON object:
+{"questions": [
+  {"type": "multiple-choice", "question": "…", "options": ["…", "…", "…", "…"], "answer": 2, "explanation": "…", "pages": [4]},
+  {"type": "true-false", "question": "…", "answer": false, "explanation": "…", "pages": [5]},
+  {"type": "short-answer", "question": "…", "answer": "model answer", "explanation": "…", "pages": [4, 6]}
+]}
+"answer" is the 0-based index of the correct option for multiple choice.
+
+--- CONTENT FOR THIS TOPIC ---
+${textContent}`,
+    },
+  ];
+}
+
+/** Keep the well-formed questions; report how many were dropped */
+function parseQuestions(text: string, topic: TopicWithPages): QuizQuestion[] {
+  const json = text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+  let raw: unknown;
+  try {
+    raw = (JSON.parse(json) as { questions?: unknown }).questions;
+  } catch (err) {
+    console.warn(`[quiz] Warning: could not parse questions for "${topic.name}": ${(err as Error).message}`);
+    return [];
+  }
+  const items = Array.isArray(raw) ? raw : [];
+  const topicPages = new Set(topic.pageNumbers);
+
+  const questions: QuizQuestion[] = [];
+  for (const item of items) {
+    const q = (item ?? {}) as Record<string, unknown>;
+    if (typeof q.question !== "string" || !q.question.trim()) continue;
+    const base: QuestionBase = {
+      question: q.question.trim(),
+      explanation: typeof q.explanation === "string" ? q.explanation.trim() : "",
+      pages: Array.isArray(q.pages)
+        ? q.pages.filter((n): n is number => Number.isInteger(n) && topicPages.has(n))
+        : [],
+    };
+    if (
+      q.type === "multiple-choice" &&
+      Array.isArray(q.options) &&
+      q.options.length >= 2 &&
+      q.options.every((o) => typeof o === "string" && o.trim()) &&
+      Number.isInteger(q.answer) &&
+      (q.answer as number) >= 0 &&
+      (q.answer as number) < q.options.length
+    ) {
+      const options = (q.options as string[]).map((o) => o.trim());
+      questions.push({ ...base, type: "multiple-choice", options, answer: q.answer as number });
+    } else if (q.type === "true-false" && typeof q.answer === "boolean") {
+      questions.push({ ...base, type: "true-false", answer: q.answer });
+    } else if (q.type === "short-answer" && typeof q.answer === "string" && q.answer.trim()) {
+      questions.push({ ...base, type: "short-answer", answer: q.answer.trim() });
+    }
+  }
+  if (questions.length < items.length) {
+    console.warn(
+      `[quiz] Warning: dropped ${items.length - questions.length} malformed question(s) for "${topic.name}"`
+    );
+  }
+  return questions;
+}
+
+// ── Rendering ──
+
+/**
+ * The quiz as markdown for `generateOutput`. Questions are wrapped in
+ * `<div class="quiz-q">` blocks that the embedded script makes clickable;
+ * the print version lists the questions, then the key on new pages.
+ */
+export function quizMarkdown(quiz: Quiz, title: string, mode: QuizMode): string {
+  const parts: string[] = [`# Self-Test: ${title}`];
+  if (mode === "interactive") {
+    parts.push(
+      `<div id="quiz-toolbar"><span id="quiz-score"></span> <button type="button" id="quiz-reveal-all">Reveal all answers</button></div>`
+    );
+  }
+
+  let n = 0;
+  for (const section of quiz.sections) {
+    parts.push(`## ${section.topic}`);
+    for (const q of section.questions) {
+      n++;
+      const choices = q.type === "multiple-choice" ? q.options : q.type === "true-false" ? ["True", "False"] : [];
+      const answer =
+        q.type === "multiple-choice" ? q.answer : q.type === "true-false" ? (q.answer ? 0 : 1) : -1;
+      const attrs =
+        mode === "interactive"
+          ? choices.length > 0
+            ? ` data-type="choice" data-answer="${answer}"`
+            : ` data-type="open"`
+          : "";
+      parts.push(
+        `<div class="quiz-q"${attrs}>`,
+        `**${n}.** ${q.question}`,
+        ...(choices.length > 0 ? [choices.map((c, i) => `${i + 1}. ${c}`).join("\n")] : []),
+        ...(mode === "interactive"
+          ? [`<div class="quiz-answer">`, answerText(q, mode), `</div>`]
+          : q.type === "short-answer"
+            ? [`<div class="answer-space"></div>`]
+            : []),
+        `</div>`
+      );
+    }
+  }
+
+  if (mode === "print") {
+    parts.push(`<div class="page-break"></div>`, `# Answer Key`);
+    n = 0;
+    for (const section of quiz.sections) {
+      parts.push(`## ${section.topic}`);
+      for (const q of section.questions) {
+        n++;
+        parts.push(`<div class="quiz-key">`, `**${n}.** ${answerText(q, mode)}`, `</div>`);
+      }
+    }
+  }
+
+  parts.push(QUIZ_STYLE);
+  if (mode === "interactive") parts.push(QUIZ_SCRIPT);
+  return parts.join("\n\n") + "\n";
+}
+
+function answerText(q: QuizQuestion, mode: QuizMode): string {
+  const answer =
+    q.type === "multiple-choice"
+      ? `${String.fromCharCode(65 + q.answer)} (${q.options[q.answer]})`
+      : q.type === "true-false"
+        ? q.answer ? "True" : "False"
+        : q.answer;
+  // On screen, [pN] markers become slide previews; on paper they'd be footnotes
+  const source =
+    q.pages.length === 0
+      ? ""
+      : mode === "interactive"
+        ? ` ${citationMarker(q.pages)}`
+        : ` _(${citationLabel(q.pages)})_`;
+  return `**Answer:** ${answer}${q.explanation ? ` — ${q.explanation}` : ""}${source}`;
+}
+
+const QUIZ_STYLE = `<style>
+  .quiz-q { margin: 14px 0; padding: 10px 14px; border: 1px solid #e5e7eb; border-radius: 6px; page-break-inside: avoid; }
+  .quiz-q ol { list-style-type: upper-alpha; }
+  .quiz-q[data-type="choice"] li { cursor: pointer; padding: 2px 6px; border-radius: 4px; }
+  .quiz-q[data-type="choice"]:not(.answered) li:hover { background: #eff6ff; }
+  .quiz-q li.right { background: #dcfce7; }
+  .quiz-q li.chosen:not(.right) { background: #fee2e2; }
+  .quiz-q.correct { border-color: #16a34a; }
+  .quiz-q.wrong { border-color: #dc2626; }
+  .quiz-answer { display: none; margin-top: 8px; padding-top: 6px; border-top: 1px dashed #d1d5db; }
+  .quiz-q.answered .quiz-answer, .quiz-q.revealed .quiz-answer, .show-answers .quiz-answer { display: block; }
+  .quiz-q textarea { width: 100%; min-height: 60px; font: inherit; margin-top: 6px; }
+  .quiz-q button, #quiz-toolbar button { font: inherit; margin: 6px 6px 0 0; padding: 2px 10px; cursor: pointer; }
+  #quiz-toolbar { position: sticky; top: 0; background: #fff; padding: 6px 0; border-bottom: 1px solid #e5e7eb; z-index: 5; }
+  .answer-space { height: 70px; border-bottom: 1px solid #d1d5db; }
+  .page-break { page-break-before: always; }
+  .quiz-key { margin: 6px 0; }
+</style>`;
+
+const QUIZ_SCRIPT = `<script>
+(function () {
+  var questions = document.querySelectorAll('.quiz-q');
+  var score = document.getElementById('quiz-score');
+  var answered = 0, correct = 0;
+  function update() {
+    score.textContent = 'Score: ' + correct + ' / ' + answered + ' answered (' + questions.length + ' questions)';
+  }
+  function grade(q, ok) {
+    q.classList.add('answered', ok ? 'correct' : 'wrong');
+    answered++;
+    if (ok) correct++;
+    update();
+  }
+  function button(label, onClick) {
+    var b = document.createElement('button');
+    b.type = 'button';
+    b.textContent = label;
+    b.addEventListener('click', onClick);
+    return b;
+  }
+  questions.forEach(function (q) {
+    if (q.dataset.type === 'choice') {
+      var items = q.querySelectorAll('ol > li');
+      var answer = Number(q.dataset.answer);
+      items.forEach(function (li, i) {
+        li.addEventListener('click', function () {
+          if (q.classList.contains('answered')) return;
+          li.classList.add('chosen');
+          items[answer].classList.add('right');
+          grade(q, i === answer);
+        });
+      });
+    } else {
+      var box = document.createElement('textarea');
+      box.placeholder = 'Your answer';
+      var controls = document.createElement('div');
+      var show = button('Show answer', function () {
+        q.classList.add('revealed');
+        controls.replaceChildren(
+          'Did you get it? ',
+          button('Yes', function () { controls.remove(); grade(q, true); }),
+          button('Not yet', function () { controls.remove(); grade(q, false); })
+        );
+      });
+      controls.appendChild(show);
+      q.insertBefore(controls, q.querySelector('.quiz-answer'));
+      q.insertBefore(box, controls);
+    }
+  });
+  document.getElementById('quiz-reveal-all').addEventListener('click', function () {
+    document.body.classList.add('show-answers');
+  });
+  update();
+})();
+</script>`;
@@ -0,0 +1,644 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * How HTML and PDF output look. A built-in theme supplies the CSS; a
+ * template directory can add its own CSS and replace the page skeleton and
+ * the PDF header and footer. Templates use `{{name}}` placeholders (HTML-
+ * escaped), `{{{name}}}` for raw HTML and `{{#name}}...{{/name}}` for parts
+ * shown only when a value is set:
+ *
+ *   template.html  page skeleton; must contain {{{content}}}
+ *   style.css      added after the theme's CSS
+ *   header.html    PDF page header (Puppeteer template; may use its
+ *   footer.html    pageNumber / totalPages classes)
+ *
+ * Placeholders: title, date, course, logo (an <img>), theme, content, styles.
+ */
+
+export const THEMES = ["default", "dark", "high-contrast", "print-economy"] as const;
+
+export type ThemeName = (typeof THEMES)[number];
+
+export const PAGE_SIZES = ["A4", "Letter"] as const;
+
+export type PageSize = (typeof PAGE_SIZES)[number];
+
+export interface PageSetup {
+  size: PageSize;
+  /** CSS lengths, e.g. "20mm" */
+  margin: { top: string; right: string; bottom: string; left: string };
+}
+
+export interface DocumentStyle {
+  theme: ThemeName;
+  /** Directory with the user's template.html, style.css, header.html and footer.html */
+  templateDir?: string;
+  /** Course name for the {{course}} placeholder */
+  course?: string;
+  /** Image file for the {{{logo}}} placeholder */
+  logoPath?: string;
+  page: PageSetup;
+}
+
+export const DEFAULT_STYLE: DocumentStyle = {
+  theme: "default",
+  page: { size: "A4", margin: { top: "20mm", right: "18mm", bottom: "20mm", left: "18mm" } },
+};
+
+export interface Template {
+  layout: string;
+  css: string;
+  header: string;
+  footer: string;
+}
+
+/** The theme's CSS and the built-in partials, overridden by any in the template directory */
+export function loadTemplate(style: DocumentStyle): Template {
+  const template: Template = {
+    layout: DEFAULT_LAYOUT,
+    css: BASE_CSS + (THEME_CSS[style.theme] ?? ""),
+    header: DEFAULT_HEADER,
+    footer: DEFAULT_FOOTER,
+  };
+  if (!style.templateDir) return template;
+
+  const read = (name: string) => {
+    const file = path.join(style.templateDir!, name);
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : undefined;
+  };
+  const layout = read("template.html");
+  if (layout !== undefined && !layout.includes("{{{content}}}")) {
+    throw new Error(`${path.join(style.templateDir, "template.html")} has no {{{content}}} placeholder`);
+  }
+  const css = read("style.css");
+  return {
+    layout: layout ?? template.layout,
+    css: css ? `${template.css}\n${css}` : template.css,
+    header: read("header.html") ?? template.header,
+    footer: read("footer.html") ?? template.footer,
+  };
+}
+
+/** Values for the placeholders every template part can use */
+export function templateValues(style: DocumentStyle, title: string): Record<string, string | undefined> {
+  let logo: string | undefined;
+  if (style.logoPath) {
+    const ext = path.extname(style.logoPath).slice(1).toLowerCase();
+    const type = ext === "svg" ? "svg+xml" : ext === "jpg" ? "jpeg" : ext;
+    const data = fs.readFileSync(style.logoPath).toString("base64");
+    logo = `<img class="logo" src="data:image/${type};base64,${data}" alt="">`;
+  }
+  return {
+    title,
+    date: new Date().toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" }),
+    course: style.course,
+    logo,
+    theme: style.theme,
+  };
+}
+
+export function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) =>
+      values[name] ? inner : ""
+    )
+    // One pass, so placeholders inside the inserted values are left alone
+    .replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_, raw?: string, escaped?: string) =>
+      raw ? (values[raw] ?? "") : escapeHtml(values[escaped!] ?? "")
+    );
+}
+
+/** CSS margin shorthand ("20mm", "20mm 18mm", ...) → the four margins */
+export function parseMargins(spec: string): PageSetup["margin"] | undefined {
+  const parts = spec.trim().split(/[\s,]+/);
+  if (parts.length > 4 || !parts.every((p) => /^\d+(\.\d+)?(mm|cm|in|px)$/.test(p))) return undefined;
+  const [top, right = top, bottom = top, left = right] = parts;
+  return { top, right, bottom, left };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const DEFAULT_LAYOUT = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>{{title}}</title>
+<style>
+{{{styles}}}
+</style>
+</head>
+<body class="theme-{{theme}}">
+<header class="masthead">{{{logo}}}{{#course}}<span class="course">{{course}}</span>{{/course}}</header>
+{{{content}}}
+</body>
+</html>`;
+
+// An empty header template makes Chrome print its own (date and title)
+const DEFAULT_HEADER = `<div style="font-size:8px; color:#888; width:100%; padding:0 20mm;">{{course}}</div>`;
+
+const DEFAULT_FOOTER = `
+        <div style="font-size:9px; color:#888; width:100%; text-align:center; padding:0 20mm;">
+          <span class="pageNumber"></span> / <span class="totalPages"></span>
+        </div>`;
+
+const BASE_CSS = `
+  @page {
+    margin: 0;
+  }
+
+  * {
+    box-sizing: border-box;
+  }
+
+  body {
+    font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+    font-size: 11pt;
+    line-height: 1.55;
+    color: #1a1a1a;
+    max-width: 860px;
+    margin: 0 auto;
+    padding: 24px;
+  }
+
+  @media print {
+    body { max-width: 100%; padding: 0; }
+  }
+
+  h1 {
+    font-size: 20pt;
+    border-bottom: 2px solid #2563eb;
+    padding-bottom: 6px;
+    margin-top: 28px;
+    margin-bottom: 12px;
+    color: #1e3a5f;
+    page-break-after: avoid;
+  }
+
+  h2 {
+    font-size: 15pt;
+    color: #1e40af;
+    margin-top: 22px;
+    margin-bottom: 8px;
+    border-bottom: 1px solid #dbeafe;
+    padding-bottom: 4px;
+    page-break-after: avoid;
+  }
+
+  h3 {
+    font-size: 12.5pt;
+    color: #374151;
+    margin-top: 16px;
+    margin-bottom: 6px;
+    page-break-after: avoid;
+  }
+
+  p {
+    margin: 6px 0;
+  }
+
+  ul, ol {
+    margin: 4px 0 8px 0;
+    padding-left: 22px;
+  }
+
+  li {
+    margin-bottom: 3px;
+  }
+
+  strong {
+    color: #111827;
+  }
+
+  code {
+    background: #f3f4f6;
+    padding: 1px 4px;
+    border-radius: 3px;
+    font-size: 10pt;
+  }
+
+  pre {
+    background: #f9fafb;
+    border: 1px solid #e5e7eb;
+    border-radius: 4px;
+    padding: 10px;
+    overflow-x: auto;
+    font-size: 9.5pt;
+  }
+
+  figure {
+    margin: 14px 0;
+    text-align: center;
+    page-break-inside: avoid;
+  }
+
+  figure img {
+    max-width: 92%;
+    height: auto;
+    border: 1px solid #e5e7eb;
+    border-radius: 4px;
+  }
+
+  figcaption {
+    font-size: 9pt;
+    color: #6b7280;
+    margin-top: 4px;
+    font-style: italic;
+  }
+
+  table {
+    border-collapse: collapse;
+    width: 100%;
+    margin: 10px 0;
+    font-size: 10pt;
+  }
+
+  th, td {
+    border: 1px solid #d1d5db;
+    padding: 6px 10px;
+    text-align: left;
+  }
+
+  th {
+    background: #f3f4f6;
+    font-weight: 600;
+  }
+
+  hr {
+    border: none;
+    border-top: 1px solid #e5e7eb;
+    margin: 18px 0;
+  }
+
+  blockquote {
+    border-left: 3px solid #2563eb;
+    margin: 10px 0;
+    padding: 4px 12px;
+    background: #eff6ff;
+    color: #1e40af;
+  }
+
+  .mermaid {
+    margin: 16px 0;
+    text-align: center;
+  }
+
+  .mermaid svg {
+    max-width: 100%;
+    height: auto;
+  }
+
+  .math-display {
+    margin: 10px 0;
+    overflow-x: auto;
+  }
+
+  math {
+    font-size: 1.1em;
+  }
+
+  .math-error {
+    color: #b91c1c;
+  }
+
+  .mermaid-error {
+    border-left: 3px solid #d97706;
+    padding-left: 8px;
+  }
+
+  .cite {
+    font-size: 8.5pt;
+    color: #2563eb;
+    white-space: nowrap;
+  }
+
+  .cite a, .section-slides a, .footnotes a {
+    color: inherit;
+    text-decoration: none;
+  }
+
+  .cite a:hover {
+    text-decoration: underline;
+  }
+
+  .section-slides {
+    font-size: 9pt;
+    color: #6b7280;
+    margin-top: -4px;
+  }
+
+  mark.unsupported, mark.contradicted {
+    background: #fef3c7;
+    border-bottom: 2px dotted #d97706;
+    padding: 0 1px;
+  }
+
+  mark.contradicted {
+    background: #fee2e2;
+    border-bottom-color: #dc2626;
+  }
+
+  #cite-popup {
+    display: none;
+    position: absolute;
+    z-index: 10;
+    gap: 8px;
+    padding: 8px;
+    background: #fff;
+    border: 1px solid #d1d5db;
+    border-radius: 6px;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+  }
+
+  #cite-popup figure {
+    margin: 0;
+  }
+
+  #cite-popup img {
+    width: 240px;
+    max-width: none;
+  }
+
+  sup.fn a {
+    color: #2563eb;
+    text-decoration: none;
+    font-size: 7.5pt;
+  }
+
+  .footnotes {
+    font-size: 8.5pt;
+    color: #6b7280;
+    border-top: 1px solid #e5e7eb;
+    margin-top: 12px;
+    padding-top: 4px;
+    page-break-inside: avoid;
+  }
+
+  .masthead:empty {
+    display: none;
+  }
+
+  .masthead {
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    color: #6b7280;
+    font-size: 9.5pt;
+  }
+
+  .masthead .logo {
+    max-height: 48px;
+  }
+
+  .masthead .course {
+    font-weight: 600;
+    color: #374151;
+  }
+
+  /* Interactive reader (HTML output) */
+  body:has(.reader) {
+    max-width: 1180px;
+  }
+
+  .reader {
+    display: grid;
+    grid-template-columns: 240px minmax(0, 1fr);
+    gap: 32px;
+    align-items: start;
+  }
+
+  .reader-nav {
+    position: sticky;
+    top: 0;
+    max-height: 100vh;
+    overflow-y: auto;
+    padding: 16px 0;
+    font-size: 9.5pt;
+  }
+
+  .reader-nav ol {
+    list-style: none;
+    margin: 0;
+    padding-left: 0;
+  }
+
+  .reader-nav ol ol {
+    padding-left: 12px;
+    font-size: 9pt;
+  }
+
+  .reader-nav li {
+    margin: 3px 0;
+  }
+
+  .reader-nav li.no-hits {
+    opacity: 0.35;
+  }
+
+  .reader-nav a {
+    color: #1e40af;
+    text-decoration: none;
+  }
+
+  .reader-nav a:hover {
+    text-decoration: underline;
+  }
+
+  .reader-nav a.done::after {
+    content: " ✓";
+    color: #16a34a;
+  }
+
+  #reader-search {
+    width: 100%;
+    padding: 5px 8px;
+    font: inherit;
+    border: 1px solid #d1d5db;
+    border-radius: 4px;
+  }
+
+  .reader-status {
+    min-height: 1.2em;
+    margin: 4px 0 10px;
+    font-size: 8.5pt;
+    color: #6b7280;
+  }
+
+  .reader-section summary {
+    display: block;
+    cursor: pointer;
+  }
+
+  .reader-section summary::-webkit-details-marker {
+    display: none;
+  }
+
+  .reader-section summary h2::before {
+    content: "▾ ";
+    color: #93c5fd;
+  }
+
+  .reader-section details:not([open]) summary h2::before {
+    content: "▸ ";
+  }
+
+  .reader-section.done summary h2::after {
+    content: " ✓";
+    color: #16a34a;
+  }
+
+  .understood {
+    display: inline-block;
+    margin: 8px 0 4px;
+    font-size: 9.5pt;
+    color: #374151;
+    cursor: pointer;
+  }
+
+  mark.hit {
+    background: #fde68a;
+    padding: 0;
+  }
+
+  mark.hit.current {
+    background: #f59e0b;
+  }
+
+  .gloss {
+    position: relative;
+    border-bottom: 1px dotted currentColor;
+    cursor: help;
+  }
+
+  .gloss:hover::after, .gloss:focus::after {
+    content: attr(data-definition);
+    position: absolute;
+    left: 0;
+    top: 100%;
+    z-index: 10;
+    width: max-content;
+    max-width: 320px;
+    margin-top: 4px;
+    padding: 6px 8px;
+    font-size: 9pt;
+    font-weight: normal;
+    line-height: 1.4;
+    color: #f9fafb;
+    background: #1f2937;
+    border-radius: 4px;
+  }
+
+  .reader-main figure img, .reader-main .mermaid {
+    cursor: zoom-in;
+  }
+
+  #reader-zoom {
+    position: fixed;
+    inset: 0;
+    z-index: 20;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 24px;
+    background: rgba(17, 24, 39, 0.85);
+    cursor: zoom-out;
+  }
+
+  #reader-zoom[hidden] {
+    display: none;
+  }
+
+  #reader-zoom > * {
+    max-width: 100%;
+    max-height: 100%;
+    margin: 0;
+    padding: 12px;
+    background: #fff;
+    border: none;
+    border-radius: 6px;
+    overflow: auto;
+  }
+
+  #reader-zoom svg {
+    width: auto;
+    max-width: none;
+    height: auto;
+  }
+
+  @media (max-width: 900px) {
+    .reader { display: block; }
+    .reader-nav { position: static; max-height: none; }
+  }
+
+  @media print {
+    .reader { display: block; }
+    .reader-nav, .understood, #reader-zoom { display: none; }
+    .reader-section summary h2::before, .reader-section.done summary h2::after { content: none; }
+    .gloss { border-bottom: none; }
+  }
+`;
+
+const THEME_CSS: Partial<Record<ThemeName, string>> = {
+  // For reading on screen; PDF page margins stay white
+  dark: `
+  body { background: #111827; color: #e5e7eb; }
+  h1 { color: #bfdbfe; border-bottom-color: #3b82f6; }
+  h2 { color: #93c5fd; border-bottom-color: #1e3a8a; }
+  h3, strong { color: #f3f4f6; }
+  code, pre, th { background: #1f2937; border-color: #374151; }
+  th, td { border-color: #374151; }
+  hr, .footnotes { border-top-color: #374151; }
+  blockquote { background: #1e293b; color: #bfdbfe; }
+  figure img { border-color: #374151; }
+  figcaption, .section-slides, .footnotes, .masthead { color: #9ca3af; }
+  .masthead .course { color: #e5e7eb; }
+  .mermaid svg { background: #f9fafb; border-radius: 4px; padding: 8px; }
+  .cite, sup.fn a { color: #93c5fd; }
+  mark.unsupported { background: #78350f; color: #fef3c7; }
+  mark.contradicted { background: #7f1d1d; color: #fee2e2; }
+  #cite-popup { background: #1f2937; border-color: #374151; }
+  .reader-nav a { color: #93c5fd; }
+  #reader-search { background: #1f2937; color: #e5e7eb; border-color: #374151; }
+  .reader-status, .understood { color: #9ca3af; }
+  mark.hit { background: #a16207; color: #fff; }
+  .gloss:hover::after, .gloss:focus::after { background: #e5e7eb; color: #111827; }
+`,
+  "high-contrast": `
+  body { color: #000; background: #fff; font-size: 12.5pt; line-height: 1.7; }
+  h1, h2, h3, strong, blockquote { color: #000; }
+  h1 { border-bottom: 3px solid #000; }
+  h2 { border-bottom: 2px solid #000; }
+  a, .cite, sup.fn a { color: #0000ee; text-decoration: underline; }
+  code, pre, th, blockquote { background: #fff; border: 1px solid #000; }
+  blockquote { border-left-width: 4px; }
+  th, td, figure img { border-color: #000; }
+  figcaption, .section-slides, .footnotes, .masthead, .masthead .course { color: #000; }
+  mark.unsupported, mark.contradicted { background: #ffff00; color: #000; border-bottom: 2px solid #000; }
+  .reader-nav a { color: #0000ee; text-decoration: underline; }
+  #reader-search { border: 2px solid #000; }
+  .reader-status, .understood { color: #000; }
+  mark.hit { background: #00ffff; color: #000; outline: 1px solid #000; }
+  .gloss:hover::after, .gloss:focus::after { background: #000; color: #fff; border: 2px solid #fff; }
+`,
+  // Small type and two columns on paper; backgrounds dropped to save ink
+  "print-economy": `
+  body { font-size: 9.5pt; line-height: 1.35; }
+  h1 { font-size: 15pt; margin-top: 12px; }
+  h2 { font-size: 11.5pt; margin-top: 12px; }
+  h3 { font-size: 10pt; margin-top: 8px; }
+  figure img { max-width: 100%; border: none; }
+  code, pre, th, blockquote { background: none; }
+  mark.unsupported, mark.contradicted { background: none; }
+  @media print {
+    body { column-count: 2; column-gap: 7mm; column-rule: 1px solid #e5e7eb; }
+    h1, .masthead { column-span: all; }
+    pre, table, .mermaid, .math-display { break-inside: avoid; }
+  }
+`,
+};
@@ -0,0 +1,225 @@
+import mupdf, { type Matrix, type Page, type Path, type Rect } from "mupdf";
+import sharp from "sharp";
+import { CONFIG } from "./config.js";
+
+/** One filled or stroked path, in page coordinates */
+export interface VectorPath {
+  bbox: Rect;
+  segments: number;
+}
+
+/** Gap (pt) under which neighbouring shapes count as one drawing */
+const CLUSTER_GAP = 10;
+/** Minimum size (pt) of a drawing worth sending to vision */
+const MIN_REGION_SIZE = 60;
+/** Regions covering more of the page than this are backgrounds, not figures */
+const MAX_REGION_COVERAGE = 0.85;
+/** A path on at least this share of pages belongs to the slide template */
+const TEMPLATE_PAGE_SHARE = 0.6;
+
+/** Every path the page draws, via a custom mupdf device */
+export function collectPaths(page: Page): VectorPath[] {
+  const paths: VectorPath[] = [];
+  const record = (path: Path, ctm: Matrix) => {
+    const bbox = pathBounds(path, ctm);
+    if (bbox) paths.push(bbox);
+  };
+
+  const device = new mupdf.Device({
+    fillPath(path, _evenOdd, ctm) {
+      record(path, ctm);
+    },
+    strokePath(path, _stroke, ctm) {
+      record(path, ctm);
+    },
+  });
+  try {
+    page.run(device, mupdf.Matrix.identity);
+  } finally {
+    device.close();
+  }
+  return paths;
+}
+
+/**
+ * Signatures of paths that repeat on most pages (title bars, footer
+ * rules, background shapes); they are ignored when looking for figures.
+ */
+export function templateSignatures(pathsPerPage: VectorPath[][]): Set<string> {
+  const template = new Set<string>();
+  if (pathsPerPage.length < 3) return template;
+
+  const pageCounts = new Map<string, number>();
+  for (const paths of pathsPerPage) {
+    for (const sig of new Set(paths.map(signature))) {
+      pageCounts.set(sig, (pageCounts.get(sig) ?? 0) + 1);
+    }
+  }
+  for (const [sig, count] of pageCounts) {
+    if (count / pathsPerPage.length >= TEMPLATE_PAGE_SHARE) template.add(sig);
+  }
+  return template;
+}
+
+/**
+ * Group a page's non-template paths into drawings and return the bounding
+ * boxes of the significant ones, grown to include the text labels on them.
+ * Drawings mostly covered by an already-extracted raster image are skipped.
+ */
+export function findDiagramRegions(
+  paths: VectorPath[],
+  pageBounds: Rect,
+  template: Set<string>,
+  textLines: Rect[],
+  imageBoxes: Rect[]
+): Rect[] {
+  const pageArea = area(pageBounds);
+  const candidates = paths.filter(
+    (p) =>
+      !template.has(signature(p)) &&
+      area(p.bbox) < pageArea * MAX_REGION_COVERAGE
+  );
+
+  const clusters = candidates.map((p) => ({ bbox: p.bbox, paths: [p] }));
+
+  // Merge clusters that touch (within CLUSTER_GAP) until nothing changes
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < clusters.length && !merged; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (!intersects(grow(clusters[i].bbox, CLUSTER_GAP), clusters[j].bbox)) continue;
+        clusters[i] = {
+          bbox: union(clusters[i].bbox, clusters[j].bbox),
+          paths: [...clusters[i].paths, ...clusters[j].paths],
+        };
+        clusters.splice(j, 1);
+        merged = true;
+        break;
+      }
+    }
+  }
+
+  const regions: Rect[] = [];
+  for (const c of clusters) {
+    if (c.paths.length < CONFIG.vectorMinPaths) continue;
+    if (width(c.bbox) < MIN_REGION_SIZE || height(c.bbox) < MIN_REGION_SIZE) continue;
+    if (isRepeatedPattern(c.paths)) continue;
+
+    let bbox = c.bbox;
+    for (const line of textLines) {
+      if (intersects(grow(c.bbox, CLUSTER_GAP), line)) bbox = union(bbox, line);
+    }
+    bbox = clip(grow(bbox, 4), pageBounds);
+    if (area(bbox) > pageArea * MAX_REGION_COVERAGE) continue;
+
+    const coveredByImage = imageBoxes.some(
+      (img) => area(intersection(img, bbox)) > area(bbox) * 0.6
+    );
+    if (coveredByImage) continue;
+
+    // Nested or overlapping drawings become a single figure
+    const overlapping = regions.findIndex((r) => intersects(r, bbox));
+    if (overlapping >= 0) regions[overlapping] = union(regions[overlapping], bbox);
+    else regions.push(bbox);
+  }
+  return regions;
+}
+
+/** Render the page once and crop each region out of it as PNG */
+export async function renderRegions(page: Page, regions: Rect[]): Promise<Buffer[]> {
+  if (regions.length === 0) return [];
+  const scale = CONFIG.vectorRenderScale;
+  const pixmap = page.toPixmap(
+    mupdf.Matrix.scale(scale, scale),
+    mupdf.ColorSpace.DeviceRGB,
+    false,
+    true
+  );
+  const png = Buffer.from(pixmap.asPNG());
+  const [px0, py0] = page.getBounds();
+
+  return Promise.all(
+    regions.map((r) => {
+      const left = Math.max(0, Math.floor((r[0] - px0) * scale));
+      const top = Math.max(0, Math.floor((r[1] - py0) * scale));
+      return sharp(png)
+        .extract({
+          left,
+          top,
+          width: Math.min(pixmap.getWidth() - left, Math.ceil(width(r) * scale)),
+          height: Math.min(pixmap.getHeight() - top, Math.ceil(height(r) * scale)),
+        })
+        .png()
+        .toBuffer();
+    })
+  );
+}
+
+/**
+ * Dot grids, stripes and other decoration repeat one shape over and over;
+ * real diagrams mix boxes, connectors and arrowheads of different sizes.
+ */
+function isRepeatedPattern(paths: VectorPath[]): boolean {
+  const shapes = new Set(
+    paths.map((p) => `${Math.round(width(p.bbox))}x${Math.round(height(p.bbox))}:${p.segments}`)
+  );
+  return shapes.size / paths.length < 0.3;
+}
+
+function pathBounds(path: Path, ctm: Matrix): VectorPath | undefined {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  let segments = 0;
+  const add = (x: number, y: number) => {
+    const tx = ctm[0] * x + ctm[2] * y + ctm[4];
+    const ty = ctm[1] * x + ctm[3] * y + ctm[5];
+    x0 = Math.min(x0, tx); y0 = Math.min(y0, ty);
+    x1 = Math.max(x1, tx); y1 = Math.max(y1, ty);
+  };
+  path.walk({
+    moveTo: (x, y) => add(x, y),
+    lineTo: (x, y) => { add(x, y); segments++; },
+    curveTo: (ax, ay, bx, by, cx, cy) => {
+      add(ax, ay); add(bx, by); add(cx, cy);
+      segments++;
+    },
+  });
+  if (!Number.isFinite(x0)) return undefined;
+  return { bbox: [x0, y0, x1, y1], segments };
+}
+
+function signature(p: VectorPath): string {
+  return `${p.bbox.map((v) => Math.round(v)).join(",")}:${p.segments}`;
+}
+
+function width(r: Rect): number {
+  return r[2] - r[0];
+}
+
+function height(r: Rect): number {
+  return r[3] - r[1];
+}
+
+function area(r: Rect): number {
+  return Math.max(0, width(r)) * Math.max(0, height(r));
+}
+
+function grow(r: Rect, d: number): Rect {
+  return [r[0] - d, r[1] - d, r[2] + d, r[3] + d];
+}
+
+function union(a: Rect, b: Rect): Rect {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+function intersection(a: Rect, b: Rect): Rect {
+  return [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])];
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+function clip(r: Rect, bounds: Rect): Rect {
+  return intersection(r, bounds);
+}
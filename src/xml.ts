@@ -0,0 +1,110 @@
+/**
+ * Minimal XML reader for OOXML parts. It keeps element names with their
+ * namespace prefix ("a:t", "p:sp") and ignores DTDs and processing
+ * instructions; that is all the slide/notes parts need.
+ */
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTR = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let last = 0;
+
+  for (const m of xml.matchAll(TOKEN)) {
+    const top = stack[stack.length - 1];
+    // Whitespace-only text is kept: `<a:t> </a:t>` is a meaningful space
+    if (m.index! > last) top.children.push(decodeEntities(xml.slice(last, m.index)));
+    last = m.index! + m[0].length;
+
+    const [, cdata, closeName, openName, attrText, selfClose] = m;
+    if (cdata !== undefined) {
+      top.children.push(cdata);
+    } else if (closeName) {
+      if (stack.length > 1) stack.pop();
+    } else if (openName) {
+      const el: XmlElement = { name: openName, attrs: parseAttrs(attrText), children: [] };
+      top.children.push(el);
+      if (!selfClose) stack.push(el);
+    }
+  }
+
+  const rootEl = root.children.find((c): c is XmlElement => typeof c !== "string");
+  if (!rootEl) throw new Error("XML document has no root element");
+  return rootEl;
+}
+
+/** All descendants (depth-first, document order) with the given name */
+export function findAll(el: XmlElement, name: string): XmlElement[] {
+  const result: XmlElement[] = [];
+  for (const child of el.children) {
+    if (typeof child === "string") continue;
+    if (child.name === name) result.push(child);
+    result.push(...findAll(child, name));
+  }
+  return result;
+}
+
+/** First descendant with the given name */
+export function findFirst(el: XmlElement, name: string): XmlElement | undefined {
+  for (const child of el.children) {
+    if (typeof child === "string") continue;
+    if (child.name === name) return child;
+    const found = findFirst(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function childElements(el: XmlElement): XmlElement[] {
+  return el.children.filter((c): c is XmlElement => typeof c !== "string");
+}
+
+export function textContent(el: XmlElement): string {
+  return el.children
+    .map((c) => (typeof c === "string" ? c : textContent(c)))
+    .join("");
+}
+
+/** Escape text for an element or a double-quoted attribute in XML we write */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseAttrs(text: string | undefined): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  if (!text) return attrs;
+  for (const m of text.matchAll(ATTR)) {
+    attrs[m[1]] = decodeEntities(m[2] ?? m[3] ?? "");
+  }
+  return attrs;
+}
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, ent: string) => {
+    switch (ent) {
+      case "amp": return "&";
+      case "lt": return "<";
+      case "gt": return ">";
+      case "quot": return '"';
+      case "apos": return "'";
+    }
+    return ent[1] === "x"
+      ? String.fromCodePoint(parseInt(ent.slice(2), 16))
+      : String.fromCodePoint(parseInt(ent.slice(1), 10));
+  });
+}
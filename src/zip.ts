@@ -0,0 +1,122 @@
+import zlib from "node:zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Entries of a zip archive (OOXML packages are plain zips), read lazily */
+export type ZipEntries = Map<string, () => Buffer>;
+
+/** Read the central directory of a zip file. Supports stored and deflated entries. */
+export function readZip(data: Buffer): ZipEntries {
+  const eocd = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error("Zip64 archives are not supported");
+
+  const entries: ZipEntries = new Map();
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt zip: bad central directory entry");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+        throw new Error(`Corrupt zip: bad local header for ${name}`);
+      }
+      const start =
+        localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const raw = data.subarray(start, start + compressedSize);
+      if (method === 0) return Buffer.from(raw);
+      if (method === 8) return zlib.inflateRawSync(raw);
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The EOCD record is at the end, followed by an optional comment of up to 64 KiB
+  const min = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= min; i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("Not a zip file (no end of central directory record)");
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  /** Keep uncompressed (files that are already compressed, or that readers expect verbatim) */
+  store?: boolean;
+}
+
+/** Write a zip archive of the entries, in order. No Zip64, so keep archives under 4 GB. */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  const { time, date } = dosDateTime(new Date());
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const body = entry.store ? entry.data : zlib.deflateRawSync(entry.data);
+    const method = entry.store ? 0 : 8;
+    const crc = zlib.crc32(entry.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_SIGNATURE, 0);
+    header.writeUInt16LE(20, 4); // version needed to extract
+    header.writeUInt16LE(0x0800, 6); // names are UTF-8
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, body);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(CENTRAL_SIGNATURE, 0);
+    record.writeUInt16LE(20, 4); // version made by
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(method, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(body.length, 20);
+    record.writeUInt32LE(entry.data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, eocd]);
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}